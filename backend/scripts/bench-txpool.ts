@@ -0,0 +1,111 @@
+/**
+ * Transaction pool benchmark: fills the pool past its 10k capacity and reports throughput and
+ * worst-case latency of admission, eviction, block selection and post-block revalidation.
+ *
+ *   npm run bench:txpool -- [senders] [txsPerSender]
+ */
+import { performance } from 'perf_hooks';
+import { StateManager } from '../src/blockchain/core/StateManager';
+import { Transaction } from '../src/blockchain/core/Transaction';
+import { TransactionPool } from '../src/blockchain/core/TransactionPool';
+import { Wallet } from '../src/blockchain/wallet/Wallet';
+
+const SENDERS = parseInt(process.argv[2] || '1000');
+const TXS_PER_SENDER = parseInt(process.argv[3] || '12');
+const RECIPIENT = '0x' + 'ab'.repeat(20);
+
+interface Timing {
+    total: number;
+    max: number;
+    count: number;
+}
+
+async function time(timing: Timing, fn: () => Promise<unknown> | unknown): Promise<void> {
+    const start = performance.now();
+    await fn();
+    const elapsed = performance.now() - start;
+    timing.total += elapsed;
+    timing.max = Math.max(timing.max, elapsed);
+    timing.count++;
+}
+
+function report(label: string, timing: Timing): void {
+    const avg = timing.count > 0 ? timing.total / timing.count : 0;
+    console.log(
+        `${label.padEnd(28)} ${String(timing.count).padStart(7)} ops ` +
+        `${timing.total.toFixed(1).padStart(10)} ms total ` +
+        `${(avg * 1000).toFixed(1).padStart(9)} us avg ` +
+        `${timing.max.toFixed(2).padStart(8)} ms max`
+    );
+}
+
+async function main(): Promise<void> {
+    const stateManager = new StateManager();
+    const pool = new TransactionPool(stateManager);
+
+    // Sign and recover senders up front so only pool operations are timed
+    console.log(`Signing ${SENDERS * TXS_PER_SENDER} transactions from ${SENDERS} senders...`);
+    const transactions: Transaction[] = [];
+    for (let i = 0; i < SENDERS; i++) {
+        const wallet = Wallet.createRandom();
+        await stateManager.setBalance(wallet.getAddress(), 10n ** 24n);
+
+        // Deliver nonces in reverse for some senders to exercise the queued lane
+        const nonces = Array.from({ length: TXS_PER_SENDER }, (_, n) => BigInt(n));
+        if (i % 4 === 0) {
+            nonces.reverse();
+        }
+
+        for (const nonce of nonces) {
+            const gasPrice = BigInt(1 + Math.floor(Math.random() * 100)) * 1000000000n;
+            const tx = await Transaction.createTransfer(wallet, RECIPIENT, 1n, nonce, gasPrice);
+            tx.validate();
+            transactions.push(tx);
+        }
+    }
+
+    const admission: Timing = { total: 0, max: 0, count: 0 };
+    let rejected = 0;
+    let evicted = 0;
+    pool.on('dropped', (_tx: Transaction, reason: string) => {
+        if (reason === 'evicted') evicted++;
+    });
+
+    for (const tx of transactions) {
+        await time(admission, async () => {
+            try {
+                await pool.addTransaction(tx);
+            } catch (error) {
+                rejected++;
+            }
+        });
+    }
+
+    const selection: Timing = { total: 0, max: 0, count: 0 };
+    for (let i = 0; i < 20; i++) {
+        await time(selection, () => pool.getPendingTransactions(1000));
+    }
+
+    // Simulate a block mining each sender's first transaction
+    const mined = await pool.getPendingTransactions(1000);
+    for (const tx of mined) {
+        await stateManager.incrementNonce(tx.from);
+        await pool.removeTransaction(tx.hash);
+    }
+    const revalidation: Timing = { total: 0, max: 0, count: 0 };
+    await time(revalidation, () => pool.revalidate());
+
+    const stats = pool.getStats();
+    console.log('');
+    report('addTransaction', admission);
+    report('getPendingTransactions(1000)', selection);
+    report('revalidate', revalidation);
+    console.log('');
+    console.log(`pending ${stats.pending}, queued ${stats.queued}, ` +
+        `evicted ${evicted}, rejected ${rejected}`);
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,23 @@
+/**
+ * Generate a BLS12-381 validator key and print the VALIDATOR_BLS_KEYS entry for the node that
+ * runs the validator and the VALIDATOR_REGISTRY entry every node verifies its votes against.
+ *
+ *   npm run generate-bls-key -- <validatorId> <address>
+ */
+import { bls12_381 as bls } from '@noble/curves/bls12-381';
+import { BlsKey } from '../src/blockchain/consensus/FinalityCertificate';
+import { bufferToHex } from '../src/utils/rlp';
+
+const [id, address] = process.argv.slice(2);
+if (!id || !address) {
+    console.error('Usage: npm run generate-bls-key -- <validatorId> <address>');
+    process.exit(1);
+}
+
+const secretKey = bufferToHex(Buffer.from(bls.utils.randomPrivateKey()));
+const key = new BlsKey(secretKey);
+
+console.log('# Keep secret: only on the node that runs the validator');
+console.log(`VALIDATOR_BLS_KEYS=${id}:${secretKey}`);
+console.log('# Public: on every node');
+console.log(`VALIDATOR_REGISTRY=${id}:${address}:${key.publicKey}:${key.provePossession()}`);
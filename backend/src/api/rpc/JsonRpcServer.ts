@@ -0,0 +1,357 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { Chain } from '../../blockchain/core/Chain';
+import { Transaction } from '../../blockchain/core/Transaction';
+import { logger } from '../../utils/logger';
+import { LogFilter } from '../../blockchain/core/LogQuery';
+import { formatLog, formatPendingTransaction, toQuantity } from './formatters';
+
+type RpcHandler = (params: any[]) => Promise<any> | any;
+
+interface JsonRpcRequest {
+    jsonrpc: '2.0';
+    id?: string | number | null;
+    method: string;
+    params?: any[];
+}
+
+interface JsonRpcResponse {
+    jsonrpc: '2.0';
+    id: string | number | null;
+    result?: any;
+    error?: { code: number; message: string; data?: any };
+}
+
+/**
+ * JSON-RPC error with a protocol error code
+ */
+export class JsonRpcError extends Error {
+    public static readonly INVALID_REQUEST = -32600;
+    public static readonly METHOD_NOT_FOUND = -32601;
+    public static readonly INVALID_PARAMS = -32602;
+    public static readonly INTERNAL_ERROR = -32603;
+    public static readonly SERVER_ERROR = -32000;
+
+    constructor(public readonly code: number, message: string, public readonly data?: any) {
+        super(message);
+    }
+}
+
+/**
+ * Ethereum-style JSON-RPC 2.0 endpoint. Accepts single and batch requests posted to the
+ * mount path.
+ */
+export class JsonRpcServer {
+    private readonly chain: Chain;
+    private readonly methods: Map<string, RpcHandler> = new Map();
+
+    constructor(chain: Chain) {
+        this.chain = chain;
+        this.registerMethods();
+    }
+
+    public getMiddleware(): RequestHandler {
+        return async (req: Request, res: Response, next: NextFunction) => {
+            if (req.method !== 'POST' || req.path !== '/') {
+                next();
+                return;
+            }
+
+            const body = req.body;
+            if (Array.isArray(body)) {
+                if (body.length === 0) {
+                    res.json(this.errorResponse(null, new JsonRpcError(
+                        JsonRpcError.INVALID_REQUEST,
+                        'empty batch'
+                    )));
+                    return;
+                }
+
+                const responses = await Promise.all(body.map(request => this.handle(request)));
+                res.json(responses.filter(response => response !== null));
+                return;
+            }
+
+            const response = await this.handle(body);
+            if (response === null) {
+                res.status(204).end();
+            } else {
+                res.json(response);
+            }
+        };
+    }
+
+    private registerMethods(): void {
+        this.methods.set('eth_getLogs', params => this.getLogs(params));
+        this.methods.set(
+            'eth_sendPrivateTransaction',
+            params => this.sendPrivateTransaction(params)
+        );
+        this.methods.set('agentchain_getReasoning', params => this.getReasoning(params));
+        this.methods.set('txpool_status', () => this.txpoolStatus());
+        this.methods.set('txpool_content', () => this.txpoolContent());
+        this.methods.set('txpool_contentFrom', params => this.txpoolContentFrom(params));
+        this.methods.set('txpool_inspect', () => this.txpoolInspect());
+    }
+
+    /**
+     * Dispatch one request. Returns null for notifications (requests without an id).
+     */
+    private async handle(request: JsonRpcRequest): Promise<JsonRpcResponse | null> {
+        const id = request?.id ?? null;
+
+        if (!request || request.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+            return this.errorResponse(id, new JsonRpcError(
+                JsonRpcError.INVALID_REQUEST,
+                'invalid request'
+            ));
+        }
+
+        const handler = this.methods.get(request.method);
+        if (!handler) {
+            return this.errorResponse(id, new JsonRpcError(
+                JsonRpcError.METHOD_NOT_FOUND,
+                `the method ${request.method} does not exist/is not available`
+            ));
+        }
+
+        try {
+            const result = await handler(Array.isArray(request.params) ? request.params : []);
+            if (request.id === undefined) {
+                return null;
+            }
+            return { jsonrpc: '2.0', id, result };
+        } catch (error) {
+            if (!(error instanceof JsonRpcError)) {
+                logger.debug(`JSON-RPC ${request.method} failed`, {
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
+            return this.errorResponse(id, error);
+        }
+    }
+
+    private errorResponse(id: string | number | null, error: unknown): JsonRpcResponse {
+        if (error instanceof JsonRpcError) {
+            return {
+                jsonrpc: '2.0',
+                id,
+                error: {
+                    code: error.code,
+                    message: error.message,
+                    ...(error.data !== undefined ? { data: error.data } : {})
+                }
+            };
+        }
+
+        return {
+            jsonrpc: '2.0',
+            id,
+            error: {
+                code: JsonRpcError.SERVER_ERROR,
+                message: error instanceof Error ? error.message : String(error)
+            }
+        };
+    }
+
+    private requireAddress(params: any[], index: number): string {
+        const address = params[index];
+        if (typeof address !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(address)) {
+            throw new JsonRpcError(
+                JsonRpcError.INVALID_PARAMS,
+                `invalid argument ${index}: expected an address`
+            );
+        }
+        return address.toLowerCase();
+    }
+
+    /**
+     * Block number from a quantity or tag. Only mined blocks are searched, so 'pending'
+     * resolves to the head.
+     */
+    private parseBlockTag(tag: unknown, index: number): number {
+        if (tag === undefined || tag === 'latest' || tag === 'pending' || tag === 'safe' ||
+            tag === 'finalized') {
+            return this.chain.getHeight();
+        }
+        if (tag === 'earliest') {
+            return 0;
+        }
+        if (typeof tag === 'string' && /^0x[0-9a-fA-F]+$/.test(tag)) {
+            return Number(BigInt(tag));
+        }
+        throw new JsonRpcError(
+            JsonRpcError.INVALID_PARAMS,
+            `invalid argument ${index}: invalid block number`
+        );
+    }
+
+    /**
+     * eth_getLogs: [{ fromBlock?, toBlock?, blockHash?, address?, topics? }]
+     */
+    private getLogs(params: any[]): any[] {
+        const request = params[0];
+        if (!request || typeof request !== 'object') {
+            throw new JsonRpcError(
+                JsonRpcError.INVALID_PARAMS,
+                'invalid argument 0: expected a filter object'
+            );
+        }
+        if (request.blockHash !== undefined &&
+            (request.fromBlock !== undefined || request.toBlock !== undefined)) {
+            throw new JsonRpcError(
+                JsonRpcError.INVALID_PARAMS,
+                'invalid argument 0: cannot specify both blockHash and fromBlock/toBlock'
+            );
+        }
+
+        const filter: LogFilter = request.blockHash !== undefined
+            ? { blockHash: String(request.blockHash) }
+            : {
+                fromBlock: this.parseBlockTag(request.fromBlock, 0),
+                toBlock: this.parseBlockTag(request.toBlock, 0)
+            };
+        if (request.address !== undefined && request.address !== null) {
+            filter.address = request.address;
+        }
+        if (Array.isArray(request.topics)) {
+            filter.topics = request.topics;
+        }
+
+        return this.chain.getLogs(filter).map(formatLog);
+    }
+
+    /**
+     * eth_sendPrivateTransaction: [{ tx, maxBlockNumber?, fallback? }]. The transaction goes
+     * only to this node's block producer and is never shown in the pool.
+     */
+    private async sendPrivateTransaction(params: any[]): Promise<string> {
+        const request = params[0];
+        if (!request || typeof request.tx !== 'string') {
+            throw new JsonRpcError(
+                JsonRpcError.INVALID_PARAMS,
+                'invalid argument 0: expected { tx, maxBlockNumber?, fallback? }'
+            );
+        }
+
+        let transaction: Transaction;
+        try {
+            transaction = Transaction.fromRaw(request.tx);
+        } catch (error) {
+            throw new JsonRpcError(
+                JsonRpcError.INVALID_PARAMS,
+                error instanceof Error ? error.message : 'invalid raw transaction'
+            );
+        }
+
+        const added = await this.chain.addPrivateTransaction(transaction, {
+            ...(request.maxBlockNumber !== undefined
+                ? { maxBlock: Number(BigInt(request.maxBlockNumber)) }
+                : {}),
+            fallback: request.fallback === true
+        });
+        if (!added) {
+            throw new JsonRpcError(
+                JsonRpcError.SERVER_ERROR,
+                'private transaction rejected: invalid, already known or past maxBlockNumber'
+            );
+        }
+
+        return transaction.hash;
+    }
+
+    /**
+     * agentchain_getReasoning: [hash]. Validator reasoning by the hash committed to in a
+     * block's reasoningRoot, or null if unknown.
+     */
+    private getReasoning(params: any[]): string | null {
+        const hash = params[0];
+        if (typeof hash !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(hash)) {
+            throw new JsonRpcError(
+                JsonRpcError.INVALID_PARAMS,
+                'invalid argument 0: expected a 32-byte hash'
+            );
+        }
+        return this.chain.getReasoning(hash);
+    }
+
+    /**
+     * txpool_status: number of pending and queued transactions
+     */
+    private txpoolStatus(): any {
+        const stats = this.chain.getTransactionPool().getStats();
+        return {
+            pending: toQuantity(stats.pending),
+            queued: toQuantity(stats.queued)
+        };
+    }
+
+    /**
+     * txpool_content: pending and queued transactions grouped by sender and nonce
+     */
+    private txpoolContent(): any {
+        const content = this.chain.getTransactionPool().getContent();
+        return {
+            pending: this.groupBySender(content.pending, formatPendingTransaction),
+            queued: this.groupBySender(content.queued, formatPendingTransaction)
+        };
+    }
+
+    /**
+     * txpool_contentFrom: pending and queued transactions of one sender, by nonce
+     */
+    private txpoolContentFrom(params: any[]): any {
+        const address = this.requireAddress(params, 0);
+        const pool = this.chain.getTransactionPool();
+        const sent = pool.getTransactionsByAddress(address)
+            .filter(tx => tx.from.toLowerCase() === address)
+            .sort((a, b) => (a.nonce < b.nonce ? -1 : a.nonce > b.nonce ? 1 : 0));
+
+        return {
+            pending: this.groupByNonce(
+                sent.filter(tx => pool.getTransactionStatus(tx.hash)?.state === 'pending'),
+                formatPendingTransaction
+            ),
+            queued: this.groupByNonce(
+                sent.filter(tx => pool.getTransactionStatus(tx.hash)?.state === 'queued'),
+                formatPendingTransaction
+            )
+        };
+    }
+
+    /**
+     * txpool_inspect: one-line summaries of pooled transactions grouped by sender and nonce
+     */
+    private txpoolInspect(): any {
+        const content = this.chain.getTransactionPool().getContent();
+        const summarize = (tx: Transaction) =>
+            `${tx.to ?? 'contract creation'}: ${tx.value} wei + ${tx.gasLimit} gas × ` +
+            `${tx.gasPrice} wei`;
+
+        return {
+            pending: this.groupBySender(content.pending, summarize),
+            queued: this.groupBySender(content.queued, summarize)
+        };
+    }
+
+    private groupBySender<T>(
+        lanes: Map<string, Transaction[]>,
+        format: (tx: Transaction) => T
+    ): Record<string, Record<string, T>> {
+        const grouped: Record<string, Record<string, T>> = {};
+        for (const [sender, transactions] of lanes) {
+            grouped[sender] = this.groupByNonce(transactions, format);
+        }
+        return grouped;
+    }
+
+    private groupByNonce<T>(
+        transactions: Transaction[],
+        format: (tx: Transaction) => T
+    ): Record<string, T> {
+        const grouped: Record<string, T> = {};
+        for (const tx of transactions) {
+            grouped[tx.nonce.toString()] = format(tx);
+        }
+        return grouped;
+    }
+}
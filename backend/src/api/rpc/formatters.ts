@@ -0,0 +1,62 @@
+import { Transaction } from '../../blockchain/core/Transaction';
+import { Log } from '../../blockchain/core/TransactionReceipt';
+
+/**
+ * Hex quantity encoding used by Ethereum JSON-RPC (no leading zeros)
+ */
+export function toQuantity(value: bigint | number): string {
+    return '0x' + value.toString(16);
+}
+
+/**
+ * JSON-RPC transaction object for a transaction that is not yet in a block
+ */
+export function formatPendingTransaction(tx: Transaction): any {
+    return {
+        blockHash: null,
+        blockNumber: null,
+        transactionIndex: null,
+        hash: tx.hash,
+        type: toQuantity(tx.type),
+        from: tx.from,
+        to: tx.to,
+        nonce: toQuantity(tx.nonce),
+        gas: toQuantity(tx.gasLimit),
+        gasPrice: toQuantity(tx.gasPrice),
+        ...(tx.type === 2 ? {
+            maxFeePerGas: toQuantity(tx.maxFeePerGas),
+            maxPriorityFeePerGas: toQuantity(tx.maxPriorityFeePerGas)
+        } : {}),
+        value: toQuantity(tx.value),
+        input: tx.data || '0x',
+        ...(tx.type !== 0 ? { accessList: tx.accessList } : {}),
+        chainId: tx.chainId === null ? undefined : toQuantity(tx.chainId),
+        v: toQuantity(tx.v),
+        r: tx.r,
+        s: tx.s
+    };
+}
+
+/**
+ * Block hashes are stored without a prefix; RPC data is always 0x-prefixed
+ */
+export function toData(hex: string): string {
+    return hex.startsWith('0x') ? hex : '0x' + hex;
+}
+
+/**
+ * JSON-RPC log object
+ */
+export function formatLog(log: Log): any {
+    return {
+        address: log.address,
+        topics: log.topics,
+        data: log.data,
+        blockNumber: toQuantity(log.blockNumber),
+        blockHash: toData(log.blockHash),
+        transactionHash: log.transactionHash,
+        transactionIndex: toQuantity(log.transactionIndex),
+        logIndex: toQuantity(log.logIndex),
+        removed: log.removed
+    };
+}
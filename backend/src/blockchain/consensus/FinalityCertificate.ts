@@ -0,0 +1,150 @@
+import { bls12_381 as bls } from '@noble/curves/bls12-381';
+import { bufferToHex, hexToBuffer } from '../../utils/rlp';
+
+// Proof-of-possession scheme: votes and key proofs are hashed to G2 under separate tags
+const SIGNATURE_DST = 'BLS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_POP_';
+const POSSESSION_DST = 'BLS_POP_BLS12381G2_XMD:SHA-256_SSWU_RO_POP_';
+
+/**
+ * BLS12-381 validator key: 48-byte G1 public key, 96-byte G2 signatures
+ */
+export class BlsKey {
+    private readonly secretKey: Uint8Array;
+    public readonly publicKey: string;
+
+    constructor(secretKey: string | Uint8Array) {
+        this.secretKey = typeof secretKey === 'string' ? hexToBuffer(secretKey) : secretKey;
+        this.publicKey = bufferToHex(Buffer.from(bls.getPublicKey(this.secretKey)));
+    }
+
+    public static generate(): BlsKey {
+        return new BlsKey(bls.utils.randomPrivateKey());
+    }
+
+    public sign(message: Buffer): string {
+        const signature = bls.sign(message, this.secretKey, { DST: SIGNATURE_DST });
+        return bufferToHex(Buffer.from(signature));
+    }
+
+    /**
+     * Signature over the public key itself. Registering keys only with a valid proof rules out
+     * rogue-key attacks on aggregates of signatures over the same message.
+     */
+    public provePossession(): string {
+        const key = hexToBuffer(this.publicKey);
+        return bufferToHex(Buffer.from(bls.sign(key, this.secretKey, { DST: POSSESSION_DST })));
+    }
+
+    public static verify(signature: string, message: Buffer, publicKey: string): boolean {
+        try {
+            return bls.verify(
+                hexToBuffer(signature),
+                message,
+                hexToBuffer(publicKey),
+                { DST: SIGNATURE_DST }
+            );
+        } catch (error) {
+            return false;
+        }
+    }
+
+    public static verifyPossession(publicKey: string, proof: string): boolean {
+        try {
+            const key = hexToBuffer(publicKey);
+            return bls.verify(hexToBuffer(proof), key, key, { DST: POSSESSION_DST });
+        } catch (error) {
+            return false;
+        }
+    }
+}
+
+/**
+ * Compact proof that a quorum of the validator set approved a block: one aggregate BLS
+ * signature over the block hash and a bitmap of which validators, by position in the set,
+ * contributed to it
+ */
+export class FinalityCertificate {
+    public readonly signature: string;
+    public readonly bitmap: string;
+
+    constructor(signature: string, bitmap: string) {
+        this.signature = signature;
+        this.bitmap = bitmap;
+    }
+
+    /**
+     * Aggregate individual vote signatures, each tagged with its signer's position in the set
+     */
+    public static aggregate(
+        votes: Array<{ index: number; signature: string }>,
+        validatorCount: number
+    ): FinalityCertificate {
+        if (votes.length === 0) {
+            throw new Error('Cannot aggregate an empty set of votes');
+        }
+
+        const bitmap = Buffer.alloc(Math.ceil(validatorCount / 8));
+        for (const { index } of votes) {
+            if (index < 0 || index >= validatorCount) {
+                throw new Error(`Validator index ${index} is outside the validator set`);
+            }
+            if (bitmap[index >> 3]! & (1 << (index & 7))) {
+                throw new Error(`Validator ${index} voted twice`);
+            }
+            bitmap[index >> 3]! |= 1 << (index & 7);
+        }
+
+        const signature = bls.aggregateSignatures(votes.map(vote => hexToBuffer(vote.signature)));
+        return new FinalityCertificate(bufferToHex(Buffer.from(signature)), bufferToHex(bitmap));
+    }
+
+    /**
+     * Positions in the validator set that signed
+     */
+    public getSigners(): number[] {
+        const bitmap = hexToBuffer(this.bitmap);
+        const signers: number[] = [];
+        for (let index = 0; index < bitmap.length * 8; index++) {
+            if (bitmap[index >> 3]! & (1 << (index & 7))) {
+                signers.push(index);
+            }
+        }
+        return signers;
+    }
+
+    /**
+     * Check the certificate for a block hash against the validator set's public keys, in set
+     * order, with a single pairing check over the aggregated public key
+     */
+    public verify(blockHash: string, publicKeys: string[], threshold: number): boolean {
+        const signers = this.getSigners();
+        if (signers.length < threshold || signers.some(index => index >= publicKeys.length)) {
+            return false;
+        }
+
+        try {
+            const aggregateKey = bls.aggregatePublicKeys(
+                signers.map(index => hexToBuffer(publicKeys[index]!))
+            );
+            return bls.verify(
+                hexToBuffer(this.signature),
+                hexToBuffer(blockHash),
+                aggregateKey,
+                { DST: SIGNATURE_DST }
+            );
+        } catch (error) {
+            return false;
+        }
+    }
+
+    public toJSON(): any {
+        return {
+            signature: this.signature,
+            bitmap: this.bitmap
+        };
+    }
+
+    public static fromJSON(data: any): FinalityCertificate {
+        return new FinalityCertificate(data.signature, data.bitmap);
+    }
+}
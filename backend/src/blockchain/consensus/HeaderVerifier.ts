@@ -0,0 +1,121 @@
+import { BlockHeader } from '../core/Block';
+
+export interface HeaderVerifierOptions {
+    period: number; // minimum ms between a block and its parent
+    validators: string[]; // sealer addresses in turn order
+    maxFutureDrift?: number; // ms a timestamp may run ahead of the local clock
+}
+
+/**
+ * Checks a header against its parent, Clique-style: sequential numbers, timestamps at least
+ * one period after the parent and not too far in the future, bounded gas limit changes,
+ * difficulty reflecting whether the sealer was in turn, and no sealer sealing more than one
+ * of any floor(N/2)+1 consecutive blocks
+ */
+export class HeaderVerifier {
+    public static readonly DIFFICULTY_IN_TURN = 2n;
+    public static readonly DIFFICULTY_NO_TURN = 1n;
+    public static readonly GAS_LIMIT_BOUND_DIVISOR = 1024n;
+    public static readonly MIN_GAS_LIMIT = 5000n;
+
+    private readonly period: bigint;
+    private readonly validators: string[];
+    private readonly maxFutureDrift: bigint;
+
+    constructor(options: HeaderVerifierOptions) {
+        this.period = BigInt(options.period);
+        this.validators = options.validators.map(address => address.toLowerCase());
+        this.maxFutureDrift = BigInt(options.maxFutureDrift ?? 15000);
+    }
+
+    /**
+     * Whether the signer is the scheduled sealer for a block number
+     */
+    public isInTurn(number: bigint, signer: string): boolean {
+        const index = Number(number % BigInt(this.validators.length));
+        return this.validators[index] === signer.toLowerCase();
+    }
+
+    /**
+     * Number of blocks before a header whose sealers may not seal it, floor(N/2)
+     */
+    public getRecentSignerWindow(): number {
+        return Math.floor(this.validators.length / 2);
+    }
+
+    /**
+     * Whether the signer sealed one of the recent blocks, given their sealers newest first
+     */
+    public hasSignedRecently(signer: string, recentSigners: string[]): boolean {
+        return recentSigners
+            .slice(0, this.getRecentSignerWindow())
+            .some(recent => recent.toLowerCase() === signer.toLowerCase());
+    }
+
+    public calculateDifficulty(number: bigint, signer: string): bigint {
+        return this.isInTurn(number, signer)
+            ? HeaderVerifier.DIFFICULTY_IN_TURN
+            : HeaderVerifier.DIFFICULTY_NO_TURN;
+    }
+
+    /**
+     * Earliest timestamp a child of the parent may carry
+     */
+    public getMinimumTimestamp(parent: BlockHeader): bigint {
+        return parent.timestamp + this.period;
+    }
+
+    /**
+     * Throw if the header is not a valid child of the parent. recentSigners are the sealers of
+     * the parent and the blocks before it, newest first.
+     */
+    public verify(
+        header: BlockHeader,
+        parent: BlockHeader,
+        recentSigners: string[] = [],
+        now: number = Date.now()
+    ): void {
+        if (header.number !== parent.number + 1n) {
+            throw new Error(`block number ${header.number} does not follow ${parent.number}`);
+        }
+
+        if (header.timestamp < this.getMinimumTimestamp(parent)) {
+            throw new Error(
+                `timestamp ${header.timestamp} is less than ${this.period}ms after parent ` +
+                `timestamp ${parent.timestamp}`
+            );
+        }
+        if (header.timestamp > BigInt(now) + this.maxFutureDrift) {
+            throw new Error(`timestamp ${header.timestamp} is too far in the future`);
+        }
+
+        const limit = parent.gasLimit / HeaderVerifier.GAS_LIMIT_BOUND_DIVISOR;
+        const change = header.gasLimit > parent.gasLimit
+            ? header.gasLimit - parent.gasLimit
+            : parent.gasLimit - header.gasLimit;
+        if (change >= limit || header.gasLimit < HeaderVerifier.MIN_GAS_LIMIT) {
+            throw new Error(
+                `gas limit ${header.gasLimit} differs from parent ${parent.gasLimit} by more ` +
+                `than 1/${HeaderVerifier.GAS_LIMIT_BOUND_DIVISOR}`
+            );
+        }
+
+        const inTurn = this.isInTurn(header.number, header.beneficiary);
+        const difficulty = inTurn
+            ? HeaderVerifier.DIFFICULTY_IN_TURN
+            : HeaderVerifier.DIFFICULTY_NO_TURN;
+        if (header.difficulty !== difficulty) {
+            throw new Error(
+                `difficulty ${header.difficulty} should be ${difficulty} for an ` +
+                `${inTurn ? 'in-turn' : 'out-of-turn'} sealer`
+            );
+        }
+
+        if (this.hasSignedRecently(header.beneficiary, recentSigners)) {
+            throw new Error(
+                `sealer ${header.beneficiary} sealed one of the last ` +
+                `${this.getRecentSignerWindow()} blocks`
+            );
+        }
+    }
+}
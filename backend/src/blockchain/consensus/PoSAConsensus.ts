@@ -1,7 +1,9 @@
 import { EventEmitter } from 'events';
+import { ChainStore } from '../../database/ChainStore';
 import { logger } from '../../utils/logger';
 import { ValidatorManager } from '../../validators/core/ValidatorManager';
 import { Block } from '../core/Block';
+import { BlsKey, FinalityCertificate } from './FinalityCertificate';
 
 export interface ConsensusVote {
     blockHash: string;
@@ -9,7 +11,8 @@ export interface ConsensusVote {
     vote: 'approve' | 'reject';
     reasoning: string;
     timestamp: number;
-    signature: string;
+    signature: string; // BLS, over the block's attestation digest
+    blsSignature: string; // over the block hash; approvals only
 }
 
 export interface ConsensusRound {
@@ -19,6 +22,7 @@ export interface ConsensusRound {
     votes: ConsensusVote[];
     status: 'pending' | 'approved' | 'rejected' | 'timeout';
     finalizedAt?: number;
+    certificate?: FinalityCertificate; // aggregate of the approving votes
 }
 
 export interface PoSAConfig {
@@ -29,16 +33,26 @@ export interface PoSAConfig {
 }
 
 export class PoSAConsensus extends EventEmitter {
+    private static readonly HISTORY_LIMIT = 100; // rounds kept in memory
+
     private validatorManager: ValidatorManager;
     private currentRound: ConsensusRound | null = null;
+    private currentBlock: Block | null = null;
+    private roundTimer: NodeJS.Timeout | null = null; // ends the current round on timeout
     private consensusHistory: ConsensusRound[] = [];
     private config: PoSAConfig;
     private isActive: boolean = false;
+    private store: ChainStore | null;
 
-    constructor(validatorManager: ValidatorManager, config: PoSAConfig) {
+    constructor(
+        validatorManager: ValidatorManager,
+        config: PoSAConfig,
+        store: ChainStore | null = null
+    ) {
         super();
         this.validatorManager = validatorManager;
         this.config = config;
+        this.store = store;
     }
 
     public async initialize(): Promise<void> {
@@ -48,6 +62,13 @@ export class PoSAConsensus extends EventEmitter {
             roundTimeout: this.config.roundTimeout
         });
 
+        // Resume statistics and participation from the persisted round history
+        if (this.store) {
+            this.consensusHistory = await this.store.loadConsensusHistory(
+                PoSAConsensus.HISTORY_LIMIT
+            );
+        }
+
         // Set up validator event listeners
         this.validatorManager.on('vote', (vote: ConsensusVote) => {
             this.handleValidatorVote(vote);
@@ -71,13 +92,15 @@ export class PoSAConsensus extends EventEmitter {
         }
 
         // Start new consensus round
-        this.currentRound = {
+        const round: ConsensusRound = {
             blockHash: block.hash,
             proposer,
             startTime: Date.now(),
             votes: [],
             status: 'pending'
         };
+        this.currentBlock = block;
+        this.currentRound = round;
 
         logger.info('Starting consensus round', {
             blockHash: block.hash,
@@ -85,15 +108,15 @@ export class PoSAConsensus extends EventEmitter {
             proposer
         });
 
+        // Time the round from its start; the timer only ever ends this round
+        this.roundTimer = setTimeout(() => {
+            this.handleRoundTimeout(round);
+        }, this.config.roundTimeout);
+
         // Request votes from all validators
         await this.requestValidatorVotes(block);
 
-        // Set timeout for this round
-        setTimeout(() => {
-            this.handleRoundTimeout();
-        }, this.config.roundTimeout);
-
-        this.emit('roundStarted', this.currentRound);
+        this.emit('roundStarted', round);
         return true;
     }
 
@@ -136,7 +159,7 @@ export class PoSAConsensus extends EventEmitter {
             return;
         }
 
-        // Validate vote signature (simplified)
+        // Validate the vote's BLS signatures against the validator's registered key
         if (!this.validateVoteSignature(vote)) {
             logger.warn('Invalid vote signature', { validator: vote.validator });
             return;
@@ -190,9 +213,18 @@ export class PoSAConsensus extends EventEmitter {
     private async finalizeRound(status: 'approved' | 'rejected'): Promise<void> {
         if (!this.currentRound) return;
 
+        if (this.roundTimer) {
+            clearTimeout(this.roundTimer);
+            this.roundTimer = null;
+        }
+
         this.currentRound.status = status;
         this.currentRound.finalizedAt = Date.now();
 
+        if (status === 'approved') {
+            this.certifyBlock();
+        }
+
         const roundDuration = this.currentRound.finalizedAt - this.currentRound.startTime;
 
         logger.info('Consensus round finalized', {
@@ -205,10 +237,15 @@ export class PoSAConsensus extends EventEmitter {
         // Add to history
         this.consensusHistory.push({ ...this.currentRound });
 
-        // Keep only last 100 rounds
-        if (this.consensusHistory.length > 100) {
+        // Keep only the most recent rounds in memory; the store keeps all of them
+        if (this.consensusHistory.length > PoSAConsensus.HISTORY_LIMIT) {
             this.consensusHistory.shift();
         }
+        if (this.store) {
+            this.store.saveConsensusRound({ ...this.currentRound }).catch(error => {
+                logger.error('Failed to persist consensus round:', error);
+            });
+        }
 
         // Emit consensus result
         this.emit('consensusReached', {
@@ -218,10 +255,11 @@ export class PoSAConsensus extends EventEmitter {
 
         // Reset current round
         this.currentRound = null;
+        this.currentBlock = null;
     }
 
-    private handleRoundTimeout(): void {
-        if (!this.currentRound || this.currentRound.status !== 'pending') {
+    private handleRoundTimeout(round: ConsensusRound): void {
+        if (this.currentRound !== round || round.status !== 'pending') {
             return;
         }
 
@@ -234,10 +272,62 @@ export class PoSAConsensus extends EventEmitter {
         this.finalizeRound('rejected');
     }
 
+    /**
+     * Check the vote's signature over its reasoning and, for an approval, the signature over
+     * the block hash that the certificate aggregates
+     */
     private validateVoteSignature(vote: ConsensusVote): boolean {
-        // Simplified signature validation
-        // In production, this would verify cryptographic signatures
-        return vote.signature.length > 0 && vote.validator.length > 0;
+        const validator = this.validatorManager.getValidatorInfo(vote.validator);
+        if (!validator || !this.currentBlock) {
+            return false;
+        }
+
+        const digest = this.currentBlock.getAttestationDigest(vote.reasoning, vote.timestamp);
+        if (!BlsKey.verify(vote.signature, digest, validator.blsPublicKey)) {
+            return false;
+        }
+
+        return vote.vote !== 'approve' || BlsKey.verify(
+            vote.blsSignature,
+            Buffer.from(vote.blockHash, 'hex'),
+            validator.blsPublicKey
+        );
+    }
+
+    /**
+     * Aggregate the approving votes into a finality certificate on the block. Bitmap positions
+     * follow the validator manager's validator order.
+     */
+    private certifyBlock(): void {
+        if (!this.currentRound || !this.currentBlock) return;
+
+        const validators = this.validatorManager.getAllValidatorInfos();
+        const approvals = this.currentRound.votes
+            .filter(vote => vote.vote === 'approve')
+            .map(vote => ({
+                index: validators.findIndex(validator => validator.id === vote.validator),
+                signature: vote.blsSignature
+            }));
+
+        if (approvals.length < this.config.requiredVotes) {
+            logger.warn('Approved without a quorum of signatures; no certificate issued', {
+                blockHash: this.currentRound.blockHash,
+                approvals: approvals.length
+            });
+            return;
+        }
+
+        try {
+            const certificate = FinalityCertificate.aggregate(approvals, validators.length);
+            this.currentBlock.attachCertificate(
+                certificate,
+                validators.map(validator => validator.blsPublicKey),
+                this.config.requiredVotes
+            );
+            this.currentRound.certificate = certificate;
+        } catch (error) {
+            logger.error('Failed to certify block:', error);
+        }
     }
 
     public getCurrentRound(): ConsensusRound | null {
@@ -281,7 +371,7 @@ export class PoSAConsensus extends EventEmitter {
 
         if (this.currentRound) {
             logger.info('Stopping consensus with active round');
-            this.handleRoundTimeout();
+            this.handleRoundTimeout(this.currentRound);
         }
 
         logger.info('PoSA consensus stopped');
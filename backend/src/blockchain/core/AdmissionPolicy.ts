@@ -0,0 +1,29 @@
+import { StateManager } from './StateManager';
+import { Transaction } from './Transaction';
+
+/**
+ * accept: admit normally; flag: admit, but mark as suspicious; hold: keep out of the pending
+ * set until released by an operator; reject: refuse admission
+ */
+export type ScreeningOutcome = 'accept' | 'flag' | 'hold' | 'reject';
+
+export interface ScreeningVerdict {
+    validator: string;
+    action: 'approve' | 'reject' | 'abstain';
+    reasoning: string;
+    confidence: number;
+}
+
+export interface ScreeningResult {
+    outcome: ScreeningOutcome;
+    verdicts: ScreeningVerdict[];
+    screenedAt: number;
+}
+
+/**
+ * Decides whether a transaction must be screened before it may become pending, and screens it
+ */
+export interface AdmissionPolicy {
+    shouldScreen(transaction: Transaction, state: StateManager): boolean;
+    screen(transaction: Transaction): Promise<ScreeningResult>;
+}
@@ -1,5 +1,10 @@
 import { keccak256 } from '@ethereum/util';
 import { EventEmitter } from 'events';
+import { bigIntToBuffer, bufferToHex, encodeRlp, hexToBuffer } from '../../utils/rlp';
+import { EMPTY_TRIE_ROOT, orderedTrieRoot } from '../../utils/trie';
+import { FinalityCertificate } from '../consensus/FinalityCertificate';
+import { joinSignature, recoverAddress, Signer } from '../wallet/Signer';
+import { ReasoningStore } from './ReasoningStore';
 import { Transaction } from './Transaction';
 
 export interface BlockHeader {
@@ -18,6 +23,7 @@ export interface BlockHeader {
     extraData: string;
     mixHash: string;
     nonce: string;
+    reasoningRoot: string; // commits to the validator reasoning the parent block carries
 }
 
 export interface BlockData {
@@ -26,56 +32,142 @@ export interface BlockData {
     ommers: BlockHeader[];
 }
 
+/**
+ * Reasoning a validator gave for a block, carried by the block that was head when it arrived:
+ * the attested block itself, or a later block for late attestations and consensus votes
+ */
 export interface ValidatorSignature {
     validator: string;
-    signature: string;
+    signature: string; // over the attestation digest; secp256k1, or BLS for a consensus vote
     reasoning: string;
     timestamp: number;
+    blockHash?: string; // attested block, if not the carrying block
+    vote?: 'approve' | 'reject'; // consensus vote, verified by PoSAConsensus
 }
 
 export class Block extends EventEmitter {
+    public static readonly EXTRA_VANITY = 32;
+    public static readonly EXTRA_SEAL = 65;
+
     public readonly header: BlockHeader;
     public readonly transactions: Transaction[];
     public readonly ommers: BlockHeader[];
     public readonly hash: string;
     public readonly validatorSignatures: ValidatorSignature[];
+    public certificate: FinalityCertificate | null; // quorum approval, attached after sealing
 
-    constructor(blockData: BlockData, validatorSignatures: ValidatorSignature[] = []) {
+    constructor(
+        blockData: BlockData,
+        validatorSignatures: ValidatorSignature[] = [],
+        certificate: FinalityCertificate | null = null
+    ) {
         super();
 
         this.header = blockData.header;
         this.transactions = blockData.transactions;
         this.ommers = blockData.ommers;
         this.validatorSignatures = validatorSignatures;
+        this.certificate = certificate;
         this.hash = this.calculateHash();
     }
 
     /**
-     * Calculate the hash of this block
+     * Calculate the hash of this block. The hash covers the whole header, seal included.
      */
     private calculateHash(): string {
+        return Block.hashHeader(this.header);
+    }
+
+    private static hashHeader(header: BlockHeader): string {
         const headerData = {
-            parentHash: this.header.parentHash,
-            ommersHash: this.header.ommersHash,
-            beneficiary: this.header.beneficiary,
-            stateRoot: this.header.stateRoot,
-            transactionsRoot: this.header.transactionsRoot,
-            receiptsRoot: this.header.receiptsRoot,
-            logsBloom: this.header.logsBloom,
-            difficulty: this.header.difficulty.toString(),
-            number: this.header.number.toString(),
-            gasLimit: this.header.gasLimit.toString(),
-            gasUsed: this.header.gasUsed.toString(),
-            timestamp: this.header.timestamp.toString(),
-            extraData: this.header.extraData,
-            mixHash: this.header.mixHash,
-            nonce: this.header.nonce
+            parentHash: header.parentHash,
+            ommersHash: header.ommersHash,
+            beneficiary: header.beneficiary,
+            stateRoot: header.stateRoot,
+            transactionsRoot: header.transactionsRoot,
+            receiptsRoot: header.receiptsRoot,
+            logsBloom: header.logsBloom,
+            difficulty: header.difficulty.toString(),
+            number: header.number.toString(),
+            gasLimit: header.gasLimit.toString(),
+            gasUsed: header.gasUsed.toString(),
+            timestamp: header.timestamp.toString(),
+            extraData: header.extraData,
+            mixHash: header.mixHash,
+            nonce: header.nonce,
+            reasoningRoot: header.reasoningRoot
         };
 
         const headerString = JSON.stringify(headerData);
         return keccak256(Buffer.from(headerString)).toString('hex');
     }
 
+    /**
+     * Seal a header, Clique-style: extraData becomes 32 bytes of vanity followed by the
+     * proposer's 65-byte signature over the header hash without the signature
+     */
+    public static sealHeader(header: BlockHeader, signer: Signer): BlockHeader {
+        const vanity = Buffer.alloc(Block.EXTRA_VANITY);
+        hexToBuffer(header.extraData).copy(vanity, 0, 0, Block.EXTRA_VANITY);
+
+        const unsealed = { ...header, extraData: bufferToHex(vanity) };
+        const seal = joinSignature(signer.signDigest(Block.sealDigest(unsealed)));
+
+        return { ...unsealed, extraData: unsealed.extraData + seal.slice(2) };
+    }
+
+    private static sealDigest(unsealed: BlockHeader): Buffer {
+        return Buffer.from(Block.hashHeader(unsealed), 'hex');
+    }
+
+    /**
+     * Address that sealed this block, or null if extraData carries no valid seal
+     */
+    public getSigner(): string | null {
+        const extraData = hexToBuffer(this.header.extraData);
+        if (extraData.length !== Block.EXTRA_VANITY + Block.EXTRA_SEAL) {
+            return null;
+        }
+
+        const unsealed = {
+            ...this.header,
+            extraData: bufferToHex(extraData.subarray(0, Block.EXTRA_VANITY))
+        };
+        return recoverAddress(
+            Block.sealDigest(unsealed),
+            bufferToHex(extraData.subarray(Block.EXTRA_VANITY))
+        );
+    }
+
+    /**
+     * Digest a validator signs to attest to this block with its reasoning
+     */
+    public getAttestationDigest(reasoning: string, timestamp: number): Buffer {
+        return keccak256(encodeRlp([
+            Buffer.from(this.hash, 'hex'),
+            Buffer.from(reasoning, 'utf8'),
+            bigIntToBuffer(BigInt(timestamp))
+        ]));
+    }
+
+    /**
+     * Sign this block on behalf of a validator
+     */
+    public createValidatorSignature(
+        validator: string,
+        signer: Signer,
+        reasoning: string,
+        timestamp: number = Date.now()
+    ): ValidatorSignature {
+        const digest = this.getAttestationDigest(reasoning, timestamp);
+        return {
+            validator,
+            signature: joinSignature(signer.signDigest(digest)),
+            reasoning,
+            timestamp
+        };
+    }
+
     /**
      * Validate the block structure and data
      */
@@ -108,6 +200,18 @@ export class Block extends EventEmitter {
                 }
             }
 
+            // The header must commit to exactly these transactions
+            if (Block.calculateTransactionsRoot(this.transactions) !==
+                this.header.transactionsRoot) {
+                return false;
+            }
+
+            // Every block after genesis must be sealed by its beneficiary
+            if (this.header.number > 0n &&
+                this.getSigner() !== this.header.beneficiary.toLowerCase()) {
+                return false;
+            }
+
             // Validate hash integrity
             const calculatedHash = this.calculateHash();
             if (calculatedHash !== this.hash) {
@@ -120,6 +224,27 @@ export class Block extends EventEmitter {
         }
     }
 
+    /**
+     * Root of the Merkle-Patricia trie mapping rlp(index) to each transaction's encoding
+     */
+    public static calculateTransactionsRoot(transactions: Transaction[]): string {
+        return orderedTrieRoot(transactions.map(tx => hexToBuffer(tx.serialize())));
+    }
+
+    /**
+     * Reasoning root the child of this block commits to: the root of the trie mapping
+     * rlp(index) to rlp([attested block hash, validator, keccak256(reasoning)]) for each
+     * signature this block carries, in byte order of the entries
+     */
+    public getReasoningRoot(): string {
+        const entries = this.validatorSignatures.map(signature => encodeRlp([
+            Buffer.from(signature.blockHash ?? this.hash, 'hex'),
+            Buffer.from(signature.validator, 'utf8'),
+            hexToBuffer(ReasoningStore.hash(signature.reasoning))
+        ]));
+        return orderedTrieRoot(entries.sort(Buffer.compare));
+    }
+
     /**
      * Get the total difficulty of this block
      */
@@ -131,15 +256,35 @@ export class Block extends EventEmitter {
      * Check if this block has enough validator signatures for consensus
      */
     public hasConsensus(requiredValidators: number = 4): boolean {
-        return this.validatorSignatures.length >= requiredValidators;
+        return this.getOwnSignatures().length >= requiredValidators;
+    }
+
+    /**
+     * Attestations of this block itself, without carried signatures and consensus votes
+     */
+    public getOwnSignatures(): ValidatorSignature[] {
+        return this.validatorSignatures.filter(sig => !sig.blockHash && !sig.vote);
     }
 
     /**
-     * Add a validator signature to this block
+     * Whether an attestation of this block recovers to the given address
      */
-    public addValidatorSignature(signature: ValidatorSignature): void {
+    public verifyValidatorSignature(signature: ValidatorSignature, address: string): boolean {
+        const digest = this.getAttestationDigest(signature.reasoning, signature.timestamp);
+        return recoverAddress(digest, signature.signature) === address.toLowerCase();
+    }
+
+    /**
+     * Add a validator signature to this block. The signature must recover to the validator's
+     * registered address.
+     */
+    public addValidatorSignature(signature: ValidatorSignature, address: string): void {
+        if (!this.verifyValidatorSignature(signature, address)) {
+            throw new Error(`Invalid signature from validator ${signature.validator}`);
+        }
+
         // Check if validator already signed
-        const existingSignature = this.validatorSignatures.find(
+        const existingSignature = this.getOwnSignatures().find(
             sig => sig.validator === signature.validator
         );
 
@@ -156,6 +301,50 @@ export class Block extends EventEmitter {
         }
     }
 
+    /**
+     * Carry a verified signature given for another block, or a consensus vote, so that the
+     * successor of this block commits to its reasoning
+     */
+    public carrySignature(signature: ValidatorSignature, blockHash: string): void {
+        this.validatorSignatures.push({
+            ...signature,
+            ...(blockHash !== this.hash ? { blockHash } : {})
+        });
+    }
+
+    /**
+     * Remove and return the signatures after the first count, which a child committed to
+     * this block's reasoning before they arrived
+     */
+    public takeSignaturesAfter(count: number): ValidatorSignature[] {
+        return this.validatorSignatures.splice(count);
+    }
+
+    /**
+     * Attach the validator set's aggregate approval. Public keys are the set's BLS keys in the
+     * order the certificate bitmap refers to.
+     */
+    public attachCertificate(
+        certificate: FinalityCertificate,
+        publicKeys: string[],
+        threshold: number
+    ): void {
+        if (!certificate.verify(this.hash, publicKeys, threshold)) {
+            throw new Error(`Invalid finality certificate for block ${this.hash}`);
+        }
+
+        this.certificate = certificate;
+        this.emit('finalized', this);
+    }
+
+    /**
+     * Whether the attached certificate proves approval by at least threshold of the given keys
+     */
+    public isFinalized(publicKeys: string[], threshold: number): boolean {
+        return this.certificate !== null &&
+            this.certificate.verify(this.hash, publicKeys, threshold);
+    }
+
     /**
      * Serialize block to JSON
      */
@@ -172,7 +361,8 @@ export class Block extends EventEmitter {
             },
             transactions: this.transactions.map(tx => tx.toJSON()),
             ommers: this.ommers,
-            validatorSignatures: this.validatorSignatures
+            validatorSignatures: this.validatorSignatures,
+            certificate: this.certificate ? this.certificate.toJSON() : null
         };
     }
 
@@ -186,7 +376,8 @@ export class Block extends EventEmitter {
             number: BigInt(data.header.number),
             gasLimit: BigInt(data.header.gasLimit),
             gasUsed: BigInt(data.header.gasUsed),
-            timestamp: BigInt(data.header.timestamp)
+            timestamp: BigInt(data.header.timestamp),
+            reasoningRoot: data.header.reasoningRoot ?? EMPTY_TRIE_ROOT
         };
 
         const transactions = data.transactions.map((txData: any) =>
@@ -199,7 +390,11 @@ export class Block extends EventEmitter {
             ommers: data.ommers || []
         };
 
-        return new Block(blockData, data.validatorSignatures || []);
+        return new Block(
+            blockData,
+            data.validatorSignatures || [],
+            data.certificate ? FinalityCertificate.fromJSON(data.certificate) : null
+        );
     }
 
     /**
@@ -221,7 +416,8 @@ export class Block extends EventEmitter {
             timestamp: BigInt(Date.now()),
             extraData: '0x41726e61436861696e2047656e6573697320426c6f636b', // "AgentChain Genesis Block" in hex
             mixHash: '0x0000000000000000000000000000000000000000000000000000000000000000',
-            nonce: '0x0000000000000042'
+            nonce: '0x0000000000000042',
+            reasoningRoot: EMPTY_TRIE_ROOT
         };
 
         const blockData: BlockData = {
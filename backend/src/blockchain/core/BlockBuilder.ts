@@ -0,0 +1,165 @@
+import { Bloom } from '../../utils/bloom';
+import { logger } from '../../utils/logger';
+import { StateManager } from './StateManager';
+import { Transaction } from './Transaction';
+import { TransactionBundle } from './TransactionBundle';
+import { Log, TransactionReceipt } from './TransactionReceipt';
+
+const MIN_TX_GAS = 21000n;
+
+export interface BlockLimits {
+    gasLimit: bigint;
+    maxSize: number; // bytes of encoded transactions
+}
+
+export interface BuiltBlockBody {
+    transactions: Transaction[];
+    receipts: TransactionReceipt[];
+    gasUsed: bigint;
+    size: number;
+    logsBloom: string; // union of the receipt blooms
+}
+
+/**
+ * Executes transactions into a block body against the state manager's current state,
+ * keeping within the block gas limit and byte size and producing receipts. The state is
+ * left with every included transaction applied; callers building speculatively should
+ * snapshot and restore around it.
+ */
+export class BlockBuilder {
+    private readonly transactions: Transaction[] = [];
+    private readonly receipts: TransactionReceipt[] = [];
+    private gasUsed: bigint = 0n;
+    private size: number = 0;
+    private logIndex: number = 0;
+
+    constructor(
+        private readonly stateManager: StateManager,
+        private readonly blockNumber: bigint,
+        private readonly blockHash: string,
+        private readonly limits: BlockLimits
+    ) { }
+
+    /**
+     * Execute and include a transaction. Returns false, leaving state untouched, if it does
+     * not fit in the remaining gas or size or cannot be applied.
+     */
+    public async addTransaction(transaction: Transaction): Promise<boolean> {
+        if (transaction.gasLimit > this.limits.gasLimit - this.gasUsed) {
+            return false;
+        }
+        if (this.size + transaction.getSize() > this.limits.maxSize) {
+            return false;
+        }
+
+        const result = await this.stateManager.applyTransaction(transaction);
+        if (!result) {
+            return false;
+        }
+
+        const transactionIndex = this.transactions.length;
+        this.gasUsed += result.gasUsed;
+        this.size += transaction.getSize();
+
+        const logs: Log[] = result.logs.map(log => ({
+            ...log,
+            blockNumber: this.blockNumber,
+            blockHash: this.blockHash,
+            transactionHash: transaction.hash,
+            transactionIndex,
+            logIndex: this.logIndex++,
+            removed: false
+        }));
+
+        this.transactions.push(transaction);
+        this.receipts.push(new TransactionReceipt({
+            type: transaction.type,
+            status: result.success ? 1 : 0,
+            transactionHash: transaction.hash,
+            transactionIndex,
+            blockHash: this.blockHash,
+            blockNumber: this.blockNumber,
+            from: transaction.from,
+            to: transaction.to,
+            gasUsed: result.gasUsed,
+            cumulativeGasUsed: this.gasUsed,
+            effectiveGasPrice: result.effectiveGasPrice,
+            contractAddress: result.contractAddress,
+            logs,
+            logsBloom: Bloom.fromLogs(logs).toHex()
+        }));
+
+        return true;
+    }
+
+    /**
+     * Include a bundle whole, in order, with every transaction succeeding, or not at all
+     */
+    public async addBundle(bundle: TransactionBundle): Promise<boolean> {
+        const state = this.stateManager.captureState();
+        const mark = {
+            transactions: this.transactions.length,
+            gasUsed: this.gasUsed,
+            size: this.size,
+            logIndex: this.logIndex
+        };
+
+        for (const tx of bundle.transactions) {
+            const included = await this.addTransaction(tx);
+            if (!included || this.receipts[this.receipts.length - 1]!.status !== 1) {
+                // Roll back the partially applied bundle
+                this.stateManager.restoreSnapshot(state);
+                this.transactions.length = mark.transactions;
+                this.receipts.length = mark.transactions;
+                this.gasUsed = mark.gasUsed;
+                this.size = mark.size;
+                this.logIndex = mark.logIndex;
+
+                logger.debug('Bundle skipped', { id: bundle.id, blockNumber: this.blockNumber });
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Fill the block from candidates ordered by priority with each sender's transactions in
+     * nonce order. Once a sender's transaction is skipped, its later nonces cannot execute
+     * either, so the rest of that sender's transactions are skipped too.
+     */
+    public async fill(candidates: Iterable<Transaction>): Promise<void> {
+        const skippedSenders = new Set<string>();
+        const included = new Set(this.transactions.map(tx => tx.hash));
+
+        for (const tx of candidates) {
+            if (this.limits.gasLimit - this.gasUsed < MIN_TX_GAS) {
+                break;
+            }
+
+            const sender = tx.from.toLowerCase();
+            if (included.has(tx.hash) || skippedSenders.has(sender)) {
+                continue;
+            }
+
+            if (!(await this.addTransaction(tx))) {
+                skippedSenders.add(sender);
+            }
+        }
+    }
+
+    public getResult(): BuiltBlockBody {
+        const logsBloom = new Bloom();
+        for (const receipt of this.receipts) {
+            logsBloom.or(Bloom.fromHex(receipt.logsBloom));
+        }
+
+        return {
+            transactions: [...this.transactions],
+            receipts: [...this.receipts],
+            gasUsed: this.gasUsed,
+            size: this.size,
+            logsBloom: logsBloom.toHex()
+        };
+    }
+}
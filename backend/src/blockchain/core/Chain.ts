@@ -1,9 +1,52 @@
 import { EventEmitter } from 'events';
+import { ChainStore } from '../../database/ChainStore';
+import { MemoryChainStore } from '../../database/MemoryChainStore';
+import { config } from '../../utils/config';
+import { Bloom } from '../../utils/bloom';
 import { logger } from '../../utils/logger';
-import { Block } from './Block';
-import { StateManager } from './StateManager';
+import { bufferToHex, hexToBuffer } from '../../utils/rlp';
+import { indexKey, MerklePatriciaTrie, orderedTrieRoot } from '../../utils/trie';
+import { AdmissionPolicy } from './AdmissionPolicy';
+import { Block, ValidatorSignature } from './Block';
+import { LogFilter, LogQuery } from './LogQuery';
+import { BlockBuilder } from './BlockBuilder';
+import { ReasoningStore } from './ReasoningStore';
+import { Simulator } from './Simulator';
+import {
+    CallRequest,
+    CallResult,
+    ContractRecord,
+    StateManager,
+    StateSnapshot
+} from './StateManager';
 import { Transaction } from './Transaction';
-import { TransactionPool } from './TransactionPool';
+import { TransactionBundle } from './TransactionBundle';
+import { DropReason, TransactionPool, TransactionStatus } from './TransactionPool';
+import { Log, TransactionReceipt } from './TransactionReceipt';
+import { HeaderVerifier } from '../consensus/HeaderVerifier';
+import { ConsensusVote } from '../consensus/PoSAConsensus';
+import { Signer } from '../wallet/Signer';
+import { Wallet } from '../wallet/Wallet';
+
+export interface ChainValidator {
+    id: string;
+    address: string;
+}
+
+export interface ChainOptions {
+    signer?: Signer; // seals blocks produced by this node
+    validators?: ChainValidator[]; // authorized sealers; defaults to the signer alone
+    store?: ChainStore; // persists blocks, receipts and state; defaults to process memory
+}
+
+export interface InclusionProof {
+    blockHash: string;
+    transactionIndex: number;
+    root: string; // transactionsRoot or receiptsRoot of the block
+    key: string; // rlp(transactionIndex)
+    value: string; // encoded transaction or receipt
+    proof: string[]; // trie nodes from the root down
+}
 
 export interface ChainStats {
     height: number;
@@ -33,24 +76,79 @@ export interface NetworkInfo {
 export class Chain extends EventEmitter {
     private blocks: Map<string, Block> = new Map();
     private blocksByNumber: Map<number, Block> = new Map();
+    private receiptsByBlock: Map<string, TransactionReceipt[]> = new Map();
+    private receiptsByTransaction: Map<string, TransactionReceipt> = new Map();
+    private stateHistory: Map<number, StateSnapshot> = new Map();
     private currentHeight: number = 0;
-    private genesisBlock: Block;
+    private genesisBlock!: Block; // set by initializeGenesis()
     private stateManager: StateManager;
     private transactionPool: TransactionPool;
+    private reasoningStore: ReasoningStore = new ReasoningStore();
+    private signer: Signer;
+    private validators: ChainValidator[];
+    private headerVerifier: HeaderVerifier;
+    private store: ChainStore;
+    private storeWrites: Promise<void> = Promise.resolve();
     private isProducingBlocks: boolean = false;
     private blockProductionInterval: NodeJS.Timeout | null = null;
-    private readonly BLOCK_TIME = 10000; // 10 seconds
+    private readonly BLOCK_TIME = config.blockchain.blockTime; // ms, also the minimum period
     private readonly MAX_BLOCK_SIZE = 2 * 1024 * 1024; // 2MB
+    private readonly BLOCK_GAS_LIMIT = 100000000n;
+    private readonly STATE_HISTORY_LIMIT = 128; // blocks of state kept for historical calls
+    private readonly ATTESTATION_WINDOW = 128; // blocks back a late attestation may refer to
+    private readonly MAX_LOG_RANGE = 10000; // blocks scanned by one getLogs query
+    private readonly MAX_LOG_RESULTS = 10000;
     private readonly CHAIN_ID = 56; // BSC compatible
 
     // Performance tracking
     private blockTimes: number[] = [];
     private hashRateHistory: number[] = [];
 
-    constructor() {
+    constructor(options: ChainOptions = {}) {
         super();
+
+        if (options.signer) {
+            this.signer = options.signer;
+        } else {
+            // Development fallback so a bare node can still produce sealed blocks
+            this.signer = Wallet.createRandom();
+            logger.warn('No block signer configured; sealing with an ephemeral key', {
+                address: this.signer.getAddress()
+            });
+        }
+        const validators = options.validators ?? [
+            { id: 'local', address: this.signer.getAddress() }
+        ];
+        this.validators = validators.map(validator => ({
+            id: validator.id,
+            address: validator.address.toLowerCase()
+        }));
+        this.headerVerifier = new HeaderVerifier({
+            period: this.BLOCK_TIME,
+            validators: this.validators.map(validator => validator.address)
+        });
+
+        this.store = options.store ?? new MemoryChainStore();
+
         this.stateManager = new StateManager();
-        this.transactionPool = new TransactionPool();
+        this.transactionPool = new TransactionPool(this.stateManager, {
+            priceBump: config.txpool.priceBump,
+            lifetime: config.txpool.lifetime,
+            journalPath: config.txpool.journal,
+            rejournalInterval: config.txpool.rejournal
+        });
+        this.transactionPool.on('dropped', (transaction: Transaction, reason: DropReason) => {
+            this.emit('transactionDropped', transaction, reason);
+        });
+        // Feed of public submissions; private transactions never appear here
+        this.transactionPool.on('added', (transaction: Transaction) => {
+            this.emit('pendingTransaction', transaction);
+        });
+
+        // Evict pool entries that the new state has made stale or unaffordable
+        this.on('blockAdded', (block: Block) => {
+            this.transactionPool.revalidate(Number(block.header.number));
+        });
         this.initializeGenesis();
     }
 
@@ -69,11 +167,14 @@ export class Chain extends EventEmitter {
     public async initialize(): Promise<void> {
         try {
             await this.stateManager.initialize();
-            await this.transactionPool.initialize();
+            this.recordState(0);
 
             // Load existing blocks from database if any
             await this.loadExistingBlocks();
 
+            // Replay journaled transactions against the restored state
+            await this.transactionPool.initialize();
+
             logger.info('Blockchain initialized', {
                 height: this.currentHeight,
                 chainId: this.CHAIN_ID
@@ -84,10 +185,56 @@ export class Chain extends EventEmitter {
         }
     }
 
+    /**
+     * Rebuild the chain from the store: blocks and receipts up to the head, the reasoning
+     * attached to them and the state after the head. A new store is seeded with genesis.
+     */
     private async loadExistingBlocks(): Promise<void> {
-        // In a real implementation, this would load from database
-        // For now, we'll start fresh each time
-        logger.info('Starting with fresh blockchain state');
+        const stored = await this.store.loadBlocks();
+        if (stored.length === 0) {
+            await this.store.saveBlock(this.genesisBlock, [], this.stateManager.captureState());
+            logger.info('Starting with fresh blockchain state');
+            return;
+        }
+
+        const state = await this.store.loadState();
+        if (!state) {
+            throw new Error('Stored chain has blocks but no state');
+        }
+
+        this.blocks.clear();
+        this.blocksByNumber.clear();
+        for (let number = 0; number < stored.length; number++) {
+            const { block, receipts } = stored[number]!;
+            const parent = stored[number - 1]?.block;
+            if (Number(block.header.number) !== number ||
+                (parent && block.header.parentHash !== parent.hash)) {
+                throw new Error(`Stored chain is broken at block ${number}`);
+            }
+
+            this.blocks.set(block.hash, block);
+            this.blocksByNumber.set(number, block);
+            this.receiptsByBlock.set(block.hash, receipts);
+            for (const receipt of receipts) {
+                this.receiptsByTransaction.set(receipt.transactionHash, receipt);
+            }
+            for (const signature of block.validatorSignatures) {
+                this.reasoningStore.put(signature.reasoning);
+            }
+            block.on('finalized', () => this.persistBlock(block));
+        }
+
+        this.genesisBlock = stored[0]!.block;
+        this.currentHeight = stored.length - 1;
+        this.stateManager.restoreSnapshot(state);
+        this.stateHistory.clear();
+        this.recordState(this.currentHeight);
+
+        logger.info('Blockchain state restored', {
+            height: this.currentHeight,
+            head: this.getLatestBlock().hash,
+            accounts: state.accounts.size
+        });
     }
 
     public async startBlockProduction(): Promise<void> {
@@ -122,38 +269,100 @@ export class Chain extends EventEmitter {
         logger.info('Block production stopped');
     }
 
+    /**
+     * Release resources held by the chain, persisting the transaction pool journal
+     */
+    public async close(): Promise<void> {
+        await this.stopBlockProduction();
+        await this.transactionPool.close();
+        await this.storeWrites;
+    }
+
+    /**
+     * Queue a write of a stored block's attestations and certificate. Writes run in order so
+     * a later update never loses to an earlier one; failures are logged, never thrown.
+     */
+    private persistBlock(block: Block): void {
+        this.storeWrites = this.storeWrites
+            .then(() => this.store.updateBlock(block))
+            .catch(error => {
+                logger.error('Failed to persist block update:', error);
+            });
+    }
+
     private async produceBlock(): Promise<void> {
         try {
             const startTime = Date.now();
 
-            // Get pending transactions
-            const pendingTxs = await this.transactionPool.getPendingTransactions(100);
-
-            // Select validator (in real implementation, this would use PoSA consensus)
-            const validator = this.selectValidator();
+            // This node seals what it produces, so its signer must be an authorized sealer
+            const validator = this.signer.getAddress();
+            if (!this.isValidator(validator)) {
+                logger.warn('Block signer is not an authorized sealer', { signer: validator });
+                return;
+            }
 
             // Create new block
             const previousBlock = this.getLatestBlock();
             const blockNumber = this.currentHeight + 1;
 
+            // Leave the block to another sealer if this one sealed too recently
+            if (this.headerVerifier.hasSignedRecently(validator, this.getRecentSigners())) {
+                logger.debug('Signed recently; waiting for another sealer', { signer: validator });
+                return;
+            }
+
+            // A block may not follow its parent by less than the block time
+            const now = BigInt(Date.now());
+            const earliest = this.headerVerifier.getMinimumTimestamp(previousBlock.header);
+            const timestamp = now > earliest ? now : earliest;
+
+            // Build the body on a snapshot: bundles first, then private transactions, then
+            // pending transactions by tip, up to the gas limit and block size. The block hash
+            // is not part of the receipt commitment, so a placeholder is used.
+            const snapshot = this.stateManager.createSnapshot();
+            const builder = new BlockBuilder(
+                this.stateManager,
+                BigInt(blockNumber),
+                '0x' + '0'.repeat(64),
+                { gasLimit: this.BLOCK_GAS_LIMIT, maxSize: this.MAX_BLOCK_SIZE }
+            );
+
+            for (const bundle of this.transactionPool.getBundles(blockNumber)) {
+                await builder.addBundle(bundle);
+            }
+            await builder.fill(this.transactionPool.getPrivateTransactions(blockNumber));
+            // A block holds at most one transaction per 21000 gas
+            await builder.fill(await this.transactionPool.getPendingTransactions(
+                Number(this.BLOCK_GAS_LIMIT / 21000n)
+            ));
+
+            const body = builder.getResult();
+            this.stateManager.restoreSnapshot(snapshot);
+
+            const pendingTxs = body.transactions;
+
             const blockData = {
-                header: {
+                header: Block.sealHeader({
                     parentHash: previousBlock.hash,
                     ommersHash: '0x1dcc4de8dec75d7aab85b567b6ccd41ad312451b948a7413f0a142fd40d49347',
                     beneficiary: validator,
                     stateRoot: await this.stateManager.getStateRoot(),
-                    transactionsRoot: this.calculateTransactionsRoot(pendingTxs),
-                    receiptsRoot: '0x56e81f171bcc55a6ff8345e692c0f86e5b48e01b996cadc001622fb5e363b421',
-                    logsBloom: '0x' + '0'.repeat(512),
-                    difficulty: this.calculateDifficulty(),
+                    transactionsRoot: Block.calculateTransactionsRoot(pendingTxs),
+                    receiptsRoot: this.calculateReceiptsRoot(body.receipts),
+                    logsBloom: body.logsBloom,
+                    difficulty: this.headerVerifier.calculateDifficulty(
+                        BigInt(blockNumber),
+                        validator
+                    ),
                     number: BigInt(blockNumber),
-                    gasLimit: 100000000n,
-                    gasUsed: this.calculateGasUsed(pendingTxs),
-                    timestamp: BigInt(Date.now()),
+                    gasLimit: this.BLOCK_GAS_LIMIT,
+                    gasUsed: body.gasUsed,
+                    timestamp: timestamp,
                     extraData: this.generateExtraData(blockNumber),
                     mixHash: '0x' + '0'.repeat(64),
-                    nonce: this.generateNonce()
-                },
+                    nonce: this.generateNonce(),
+                    reasoningRoot: previousBlock.getReasoningRoot()
+                }, this.signer),
                 transactions: pendingTxs,
                 ommers: []
             };
@@ -180,55 +389,8 @@ export class Chain extends EventEmitter {
         }
     }
 
-    private selectValidator(): string {
-        // Simple round-robin for now, in real implementation this would use PoSA
-        const validators = [
-            '0x1234567890123456789012345678901234567890', // Claude
-            '0x2345678901234567890123456789012345678901', // GPT
-            '0x3456789012345678901234567890123456789012', // Grok
-            '0x4567890123456789012345678901234567890123', // Stable
-            '0x5678901234567890123456789012345678901234', // Perplex
-            '0x6789012345678901234567890123456789012345'  // Cohere
-        ];
-
-        return validators[this.currentHeight % validators.length];
-    }
-
-    private calculateTransactionsRoot(transactions: Transaction[]): string {
-        if (transactions.length === 0) {
-            return '0x56e81f171bcc55a6ff8345e692c0f86e5b48e01b996cadc001622fb5e363b421';
-        }
-
-        // Simplified merkle root calculation
-        const txHashes = transactions.map(tx => tx.hash);
-        return this.buildMerkleTree(txHashes);
-    }
-
-    private buildMerkleTree(hashes: string[]): string {
-        if (hashes.length === 1) {
-            return hashes[0];
-        }
-
-        const newLevel: string[] = [];
-        for (let i = 0; i < hashes.length; i += 2) {
-            const left = hashes[i];
-            const right = hashes[i + 1] || left;
-            // In real implementation, use proper hash function
-            newLevel.push('0x' + Buffer.from(left + right).toString('hex').slice(0, 64));
-        }
-
-        return this.buildMerkleTree(newLevel);
-    }
-
-    private calculateGasUsed(transactions: Transaction[]): bigint {
-        return transactions.reduce((total, tx) => total + tx.gasUsed, 0n);
-    }
-
-    private calculateDifficulty(): bigint {
-        // Simplified difficulty adjustment
-        const baseDifficulty = 1000000n;
-        const adjustment = BigInt(Math.floor(Math.sin(this.currentHeight / 100) * 100000));
-        return baseDifficulty + adjustment;
+    private calculateReceiptsRoot(receipts: TransactionReceipt[]): string {
+        return orderedTrieRoot(receipts.map(receipt => receipt.encode()));
     }
 
     private generateExtraData(blockNumber: number): string {
@@ -241,7 +403,7 @@ export class Chain extends EventEmitter {
             'Decentralized AI'
         ];
 
-        const message = messages[blockNumber % messages.length];
+        const message = messages[blockNumber % messages.length]!;
         return '0x' + Buffer.from(message).toString('hex');
     }
 
@@ -271,6 +433,15 @@ export class Chain extends EventEmitter {
                 return false;
             }
 
+            // Only authorized sealers may extend the chain
+            if (block.header.number > 0n && !this.isValidator(block.header.beneficiary)) {
+                logger.warn('Block sealed by unauthorized signer', {
+                    hash: block.hash,
+                    signer: block.header.beneficiary
+                });
+                return false;
+            }
+
             // Check if block already exists
             if (this.blocks.has(block.hash)) {
                 logger.warn('Duplicate block rejected', { hash: block.hash });
@@ -287,6 +458,32 @@ export class Chain extends EventEmitter {
                 return false;
             }
 
+            // Check the header against its parent: timestamp, gas limit and difficulty
+            if (parentBlock) {
+                try {
+                    this.headerVerifier.verify(
+                        block.header,
+                        parentBlock.header,
+                        this.getRecentSigners()
+                    );
+                } catch (error) {
+                    logger.warn('Invalid block header', {
+                        hash: block.hash,
+                        reason: error instanceof Error ? error.message : String(error)
+                    });
+                    return false;
+                }
+            }
+
+            // The header commits to the reasoning attached to its parent
+            if (parentBlock && block.header.reasoningRoot !== parentBlock.getReasoningRoot()) {
+                logger.warn('Reasoning root mismatch', { hash: block.hash });
+                return false;
+            }
+            // Signatures the parent receives while the block is executed and stored are not
+            // covered by that root; they move to the block once it is head
+            const committed = parentBlock?.validatorSignatures.length ?? 0;
+
             // Verify block number is sequential
             const expectedNumber = this.currentHeight + 1;
             if (Number(block.header.number) !== expectedNumber) {
@@ -297,9 +494,56 @@ export class Chain extends EventEmitter {
                 return false;
             }
 
-            // Process transactions and update state
+            // Process transactions and update state, rolling back if any cannot be applied
+            // within the header's gas limit and the block size limit
+            const snapshot = this.stateManager.createSnapshot();
+            const builder = new BlockBuilder(
+                this.stateManager,
+                block.header.number,
+                block.hash,
+                { gasLimit: block.header.gasLimit, maxSize: this.MAX_BLOCK_SIZE }
+            );
+
+            for (const tx of block.transactions) {
+                if (!(await builder.addTransaction(tx))) {
+                    this.stateManager.restoreSnapshot(snapshot);
+                    logger.warn('Block contains unexecutable transactions', {
+                        hash: block.hash,
+                        transaction: tx.hash
+                    });
+                    return false;
+                }
+            }
+            const execution = builder.getResult();
+
+            // Verify the receipts commitment, logs bloom and gas accounting
+            const receiptsRoot = this.calculateReceiptsRoot(execution.receipts);
+            const gasUsed = execution.gasUsed;
+            if (receiptsRoot !== block.header.receiptsRoot || gasUsed !== block.header.gasUsed ||
+                execution.logsBloom !== block.header.logsBloom.toLowerCase()) {
+                this.stateManager.restoreSnapshot(snapshot);
+                logger.warn('Receipts root, logs bloom or gas used mismatch', {
+                    hash: block.hash,
+                    receiptsRoot,
+                    gasUsed: gasUsed.toString()
+                });
+                return false;
+            }
+
+            // Persist before the block becomes visible, so the store never lags behind
+            try {
+                await this.store.saveBlock(
+                    block,
+                    execution.receipts,
+                    this.stateManager.captureState()
+                );
+            } catch (error) {
+                this.stateManager.restoreSnapshot(snapshot);
+                logger.error('Failed to persist block:', error);
+                return false;
+            }
+
             for (const tx of block.transactions) {
-                await this.stateManager.processTransaction(tx);
                 await this.transactionPool.removeTransaction(tx.hash);
             }
 
@@ -307,6 +551,18 @@ export class Chain extends EventEmitter {
             this.blocks.set(block.hash, block);
             this.blocksByNumber.set(Number(block.header.number), block);
             this.currentHeight = Number(block.header.number);
+            if (parentBlock) {
+                this.carryLateSignatures(parentBlock, block, committed);
+            }
+
+            // Store receipts
+            this.receiptsByBlock.set(block.hash, execution.receipts);
+            for (const receipt of execution.receipts) {
+                this.receiptsByTransaction.set(receipt.transactionHash, receipt);
+            }
+            block.on('finalized', () => this.persistBlock(block));
+
+            this.recordState(this.currentHeight);
 
             // Emit events
             this.emit('blockAdded', block);
@@ -318,6 +574,75 @@ export class Chain extends EventEmitter {
         }
     }
 
+    /**
+     * Sealers of the head block and the blocks before it, newest first, as far back as the
+     * recent-signer rule looks
+     */
+    private getRecentSigners(): string[] {
+        const signers: string[] = [];
+        const window = this.headerVerifier.getRecentSignerWindow();
+        for (let number = this.currentHeight; number > 0 && signers.length < window; number--) {
+            const block = this.blocksByNumber.get(number);
+            if (block) {
+                signers.push(block.header.beneficiary);
+            }
+        }
+        return signers;
+    }
+
+    /**
+     * Move signatures that reached the parent after the block committed to its reasoning onto
+     * the block, so that its successor commits to them instead
+     */
+    private carryLateSignatures(parent: Block, block: Block, committed: number): void {
+        const late = parent.takeSignaturesAfter(committed);
+        if (late.length === 0) {
+            return;
+        }
+
+        for (const signature of late) {
+            block.carrySignature(signature, signature.blockHash ?? parent.hash);
+        }
+        this.persistBlock(parent);
+        this.persistBlock(block);
+    }
+
+    /**
+     * Keep the post-state of a block for historical calls, dropping the oldest beyond the limit
+     */
+    private recordState(blockNumber: number): void {
+        this.stateHistory.set(blockNumber, this.stateManager.captureState());
+        this.stateHistory.delete(blockNumber - this.STATE_HISTORY_LIMIT);
+    }
+
+    /**
+     * Simulate a call against the state after the given block (latest if omitted) without
+     * committing anything
+     */
+    public async call(request: CallRequest, blockNumber?: number): Promise<CallResult> {
+        return this.getSimulator(blockNumber).call(request);
+    }
+
+    /**
+     * Estimate the gas a call needs against the state after the given block (latest if omitted)
+     */
+    public async estimateGas(request: CallRequest, blockNumber?: number): Promise<bigint> {
+        return this.getSimulator(blockNumber).estimateGas(request);
+    }
+
+    private getSimulator(blockNumber?: number): Simulator {
+        if (blockNumber === undefined || blockNumber === this.currentHeight) {
+            return new Simulator(this.stateManager.captureState(), this.BLOCK_GAS_LIMIT);
+        }
+
+        const state = this.stateHistory.get(blockNumber);
+        if (!state) {
+            throw new Error(`State for block ${blockNumber} is not available`);
+        }
+
+        return new Simulator(state, this.BLOCK_GAS_LIMIT);
+    }
+
     public getBlock(hash: string): Block | null {
         return this.blocks.get(hash) || null;
     }
@@ -342,6 +667,34 @@ export class Chain extends EventEmitter {
         return await this.transactionPool.addTransaction(transaction);
     }
 
+    /**
+     * Submit a transaction that only this node's block producer sees. It may be included up
+     * to maxBlock, capped at config.txpool.privateBlocks blocks ahead; with fallback set it
+     * then moves to the public pool instead of being dropped.
+     */
+    public async addPrivateTransaction(
+        transaction: Transaction,
+        options: { maxBlock?: number; fallback?: boolean } = {}
+    ): Promise<boolean> {
+        const limit = this.currentHeight + config.txpool.privateBlocks;
+        const maxBlock = Math.min(options.maxBlock ?? limit, limit);
+        if (maxBlock <= this.currentHeight) {
+            return false;
+        }
+        return await this.transactionPool.addPrivateTransaction(
+            transaction,
+            maxBlock,
+            options.fallback ?? false
+        );
+    }
+
+    public async addBundle(bundle: TransactionBundle): Promise<boolean> {
+        if (bundle.isExpired(this.currentHeight + 1)) {
+            return false;
+        }
+        return await this.transactionPool.addBundle(bundle);
+    }
+
     public getTransaction(hash: string): Transaction | null {
         // Search in all blocks
         for (const block of this.blocks.values()) {
@@ -353,6 +706,249 @@ export class Chain extends EventEmitter {
         return this.transactionPool.getTransaction(hash);
     }
 
+    /**
+     * Where a transaction is: in the pool (with any AI screening verdicts) or included
+     */
+    public getTransactionStatus(hash: string): TransactionStatus | null {
+        const status = this.transactionPool.getTransactionStatus(hash);
+        if (this.receiptsByTransaction.has(hash.toLowerCase())) {
+            return {
+                state: 'included',
+                flagged: status?.flagged ?? false,
+                screening: status?.screening ?? null
+            };
+        }
+        return status;
+    }
+
+    public getTransactionPool(): TransactionPool {
+        return this.transactionPool;
+    }
+
+    /**
+     * Authorized block sealers in turn order
+     */
+    public getValidators(): ChainValidator[] {
+        return this.validators.map(validator => ({ ...validator }));
+    }
+
+    private isValidator(address: string): boolean {
+        return this.validators.some(validator => validator.address === address.toLowerCase());
+    }
+
+    /**
+     * Attach a validator's attestation of a block, verified against the address registered
+     * for that validator id (or address). The head block carries it and the next block
+     * commits to the reasoning, so an attestation of a block that already has a successor is
+     * committed late, by a later block, up to ATTESTATION_WINDOW blocks back.
+     */
+    public addValidatorSignature(blockHash: string, signature: ValidatorSignature): void {
+        const block = this.blocks.get(blockHash);
+        if (!block) {
+            throw new Error(`Block ${blockHash} not found`);
+        }
+
+        const validator = this.validators.find(candidate =>
+            candidate.id === signature.validator ||
+            candidate.address === signature.validator.toLowerCase()
+        );
+        if (!validator) {
+            throw new Error(`Unknown validator ${signature.validator}`);
+        }
+
+        const head = this.getLatestBlock();
+        if (block === head) {
+            block.addValidatorSignature(signature, validator.address);
+        } else {
+            if (this.currentHeight - Number(block.header.number) > this.ATTESTATION_WINDOW) {
+                throw new Error(`Block ${blockHash} is too old to attest`);
+            }
+            if (!block.verifyValidatorSignature(signature, validator.address)) {
+                throw new Error(`Invalid signature from validator ${signature.validator}`);
+            }
+            if (this.isAttested(block, signature.validator)) {
+                throw new Error(
+                    `Validator ${signature.validator} has already signed block ${blockHash}`
+                );
+            }
+            head.carrySignature(signature, block.hash);
+        }
+
+        this.reasoningStore.put(signature.reasoning);
+        this.persistBlock(head);
+    }
+
+    /**
+     * Carry the votes of a finished consensus round on the head block so that the next block
+     * commits to their reasoning. PoSAConsensus has verified them against the validators'
+     * registered BLS keys.
+     */
+    public addConsensusVotes(votes: ConsensusVote[]): void {
+        const head = this.getLatestBlock();
+        for (const vote of votes) {
+            if (!this.blocks.has(vote.blockHash)) {
+                logger.warn('Consensus vote for an unknown block', {
+                    validator: vote.validator,
+                    blockHash: vote.blockHash
+                });
+                continue;
+            }
+
+            head.carrySignature({
+                validator: vote.validator,
+                signature: vote.signature,
+                reasoning: vote.reasoning,
+                timestamp: vote.timestamp,
+                vote: vote.vote
+            }, vote.blockHash);
+            this.reasoningStore.put(vote.reasoning);
+        }
+
+        this.persistBlock(head);
+    }
+
+    /**
+     * Whether the block or a later one already carries the validator's attestation of it
+     */
+    private isAttested(block: Block, validator: string): boolean {
+        for (let number = Number(block.header.number); number <= this.currentHeight; number++) {
+            const carrier = this.blocksByNumber.get(number);
+            if (carrier?.validatorSignatures.some(signature =>
+                !signature.vote &&
+                signature.validator === validator &&
+                (signature.blockHash ?? carrier.hash) === block.hash
+            )) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Reasoning text by the keccak256 hash committed to in a block's reasoningRoot
+     */
+    public getReasoning(hash: string): string | null {
+        return this.reasoningStore.get(hash);
+    }
+
+    /**
+     * Install before initialize() for the policy to cover transactions replayed from the journal
+     */
+    public setAdmissionPolicy(policy: AdmissionPolicy | null): void {
+        this.transactionPool.setAdmissionPolicy(policy);
+    }
+
+    public getTransactionReceipt(hash: string): TransactionReceipt | null {
+        return this.receiptsByTransaction.get(hash.toLowerCase()) || null;
+    }
+
+    public getBlockReceipts(blockHash: string): TransactionReceipt[] {
+        return this.receiptsByBlock.get(blockHash) || [];
+    }
+
+    /**
+     * Logs matching the filter, in chain order. Blocks whose logsBloom rules out a match are
+     * skipped without reading their receipts.
+     */
+    public getLogs(filter: LogFilter): Log[] {
+        let blocks: Block[];
+        if (filter.blockHash !== undefined) {
+            const block = this.blocks.get(filter.blockHash.replace(/^0x/, '').toLowerCase());
+            if (!block) {
+                throw new Error(`unknown block ${filter.blockHash}`);
+            }
+            blocks = [block];
+        } else {
+            const fromBlock = filter.fromBlock ?? this.currentHeight;
+            const toBlock = Math.min(filter.toBlock ?? this.currentHeight, this.currentHeight);
+            if (fromBlock > toBlock) {
+                return [];
+            }
+            if (toBlock - fromBlock + 1 > this.MAX_LOG_RANGE) {
+                throw new Error(`block range exceeds ${this.MAX_LOG_RANGE} blocks`);
+            }
+
+            blocks = [];
+            for (let number = fromBlock; number <= toBlock; number++) {
+                const block = this.blocksByNumber.get(number);
+                if (block) {
+                    blocks.push(block);
+                }
+            }
+        }
+
+        const query = new LogQuery(filter);
+        const logs: Log[] = [];
+        for (const block of blocks) {
+            if (!query.mayMatch(Bloom.fromHex(block.header.logsBloom))) {
+                continue;
+            }
+
+            for (const receipt of this.receiptsByBlock.get(block.hash) || []) {
+                for (const log of receipt.logs) {
+                    if (!query.matches(log)) {
+                        continue;
+                    }
+                    if (logs.length >= this.MAX_LOG_RESULTS) {
+                        throw new Error(
+                            `query returned more than ${this.MAX_LOG_RESULTS} results`
+                        );
+                    }
+                    logs.push(log);
+                }
+            }
+        }
+
+        return logs;
+    }
+
+    /**
+     * Merkle-Patricia proof that the transaction at an index is committed to by the block's
+     * transactionsRoot
+     */
+    public getTransactionProof(blockHash: string, index: number): InclusionProof | null {
+        const block = this.blocks.get(blockHash);
+        const transaction = block?.transactions[index];
+        if (!block || !transaction) {
+            return null;
+        }
+
+        const values = block.transactions.map(tx => hexToBuffer(tx.serialize()));
+        return this.buildInclusionProof(block.hash, index, values);
+    }
+
+    /**
+     * Merkle-Patricia proof that the receipt at an index is committed to by the block's
+     * receiptsRoot
+     */
+    public getReceiptProof(blockHash: string, index: number): InclusionProof | null {
+        const receipts = this.receiptsByBlock.get(blockHash);
+        if (!receipts || !receipts[index]) {
+            return null;
+        }
+
+        const values = receipts.map(receipt => receipt.encode());
+        return this.buildInclusionProof(blockHash, index, values);
+    }
+
+    private buildInclusionProof(
+        blockHash: string,
+        index: number,
+        values: Buffer[]
+    ): InclusionProof {
+        const trie = MerklePatriciaTrie.fromList(values);
+        const key = indexKey(index);
+
+        return {
+            blockHash,
+            transactionIndex: index,
+            root: trie.getRoot(),
+            key: bufferToHex(key),
+            value: bufferToHex(values[index]!),
+            proof: trie.getProof(key).map(node => bufferToHex(node))
+        };
+    }
+
     public getTransactionsByAddress(address: string, limit: number = 50): Transaction[] {
         const transactions: Transaction[] = [];
 
@@ -362,7 +958,7 @@ export class Chain extends EventEmitter {
             if (block) {
                 for (const tx of block.transactions) {
                     if (tx.from.toLowerCase() === address.toLowerCase() ||
-                        tx.to.toLowerCase() === address.toLowerCase()) {
+                        tx.to?.toLowerCase() === address.toLowerCase()) {
                         transactions.push(tx);
                         if (transactions.length >= limit) break;
                     }
@@ -381,6 +977,18 @@ export class Chain extends EventEmitter {
         return this.stateManager.getNonce(address);
     }
 
+    public getCode(address: string): string {
+        return this.stateManager.getCode(address);
+    }
+
+    public getContract(address: string): ContractRecord | null {
+        return this.stateManager.getContract(address);
+    }
+
+    public getContractsByDeployer(deployer: string): ContractRecord[] {
+        return this.stateManager.getContractsByDeployer(deployer);
+    }
+
     public getStats(): ChainStats {
         const avgBlockTime = this.blockTimes.length > 0
             ? this.blockTimes.reduce((a, b) => a + b, 0) / this.blockTimes.length
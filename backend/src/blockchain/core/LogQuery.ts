@@ -0,0 +1,71 @@
+import { Bloom } from '../../utils/bloom';
+import { hexToBuffer } from '../../utils/rlp';
+import { Log } from './TransactionReceipt';
+
+/**
+ * eth_getLogs-style filter. Topics are positional: null matches anything, an array matches
+ * any of its entries.
+ */
+export interface LogFilter {
+    fromBlock?: number;
+    toBlock?: number;
+    blockHash?: string;
+    address?: string | string[];
+    topics?: Array<string | string[] | null>;
+}
+
+/**
+ * Normalized address and topic criteria of a log filter, checked first against block blooms
+ * and then against individual logs
+ */
+export class LogQuery {
+    private readonly addresses: string[];
+    private readonly topics: Array<string[] | null>;
+
+    constructor(filter: LogFilter) {
+        const addresses = filter.address === undefined
+            ? []
+            : Array.isArray(filter.address) ? filter.address : [filter.address];
+        this.addresses = addresses.map(address => address.toLowerCase());
+
+        this.topics = (filter.topics || []).map(topic => {
+            if (topic === null) {
+                return null;
+            }
+            const alternatives = Array.isArray(topic) ? topic : [topic];
+            // An empty alternative list places no constraint on the position
+            return alternatives.length > 0
+                ? alternatives.map(value => value.toLowerCase())
+                : null;
+        });
+    }
+
+    /**
+     * False if the bloom proves no log in the block can match
+     */
+    public mayMatch(bloom: Bloom): boolean {
+        if (this.addresses.length > 0 &&
+            !this.addresses.some(address => bloom.has(hexToBuffer(address)))) {
+            return false;
+        }
+
+        return this.topics.every(alternatives =>
+            alternatives === null || alternatives.some(topic => bloom.has(hexToBuffer(topic)))
+        );
+    }
+
+    public matches(log: Log): boolean {
+        if (this.addresses.length > 0 && !this.addresses.includes(log.address.toLowerCase())) {
+            return false;
+        }
+
+        if (this.topics.length > log.topics.length) {
+            return false;
+        }
+
+        return this.topics.every((alternatives, position) =>
+            alternatives === null ||
+            alternatives.includes(log.topics[position]!.toLowerCase())
+        );
+    }
+}
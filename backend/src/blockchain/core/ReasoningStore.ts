@@ -0,0 +1,38 @@
+import { keccak256 } from '@ethereum/util';
+import { bufferToHex } from '../../utils/rlp';
+
+/**
+ * Content-addressed store of validator reasoning. Each text is kept under the keccak256 hash
+ * of its UTF-8 bytes, the same hash that block headers commit to.
+ */
+export class ReasoningStore {
+    private readonly entries: Map<string, string> = new Map();
+
+    /**
+     * Content address of a reasoning text
+     */
+    public static hash(reasoning: string): string {
+        return bufferToHex(keccak256(Buffer.from(reasoning, 'utf8')));
+    }
+
+    /**
+     * Store a reasoning text and return its hash
+     */
+    public put(reasoning: string): string {
+        const hash = ReasoningStore.hash(reasoning);
+        this.entries.set(hash, reasoning);
+        return hash;
+    }
+
+    public get(hash: string): string | null {
+        return this.entries.get(hash.toLowerCase()) ?? null;
+    }
+
+    public has(hash: string): boolean {
+        return this.entries.has(hash.toLowerCase());
+    }
+
+    public getSize(): number {
+        return this.entries.size;
+    }
+}
@@ -0,0 +1,67 @@
+import { CallRequest, CallResult, StateManager, StateSnapshot } from './StateManager';
+import { Transaction } from './Transaction';
+
+/**
+ * Dry-run execution of calls against a fixed state. Every run works on its own copy of the
+ * snapshot, so nothing is ever committed.
+ */
+export class Simulator {
+    private readonly state: StateSnapshot;
+    private readonly blockGasLimit: bigint;
+
+    constructor(state: StateSnapshot, blockGasLimit: bigint) {
+        this.state = state;
+        this.blockGasLimit = blockGasLimit;
+    }
+
+    /**
+     * Execute a call and return its output, gas used and revert reason (eth_call)
+     */
+    public async call(request: CallRequest): Promise<CallResult> {
+        return this.run(request, request.gas ?? this.blockGasLimit);
+    }
+
+    /**
+     * Find the lowest gas limit at which the call succeeds by binary search (eth_estimateGas)
+     */
+    public async estimateGas(request: CallRequest): Promise<bigint> {
+        let hi = request.gas ?? this.blockGasLimit;
+
+        // Cap the search at what the sender can afford
+        const gasPrice = request.gasPrice ?? 0n;
+        if (gasPrice > 0n) {
+            const account = this.state.accounts.get((request.from || '').toLowerCase());
+            const available = (account?.balance || 0n) - (request.value ?? 0n);
+            const allowance = available > 0n ? available / gasPrice : 0n;
+            if (allowance < hi) {
+                hi = allowance;
+            }
+        }
+
+        let lo = Transaction.calculateIntrinsicGas(
+            request.data || '0x',
+            !request.to,
+            request.accessList
+        ) - 1n;
+
+        const result = await this.run(request, hi);
+        if (!result.success) {
+            throw new Error(`gas required exceeds allowance (${hi}): ${result.revertReason}`);
+        }
+
+        while (lo + 1n < hi) {
+            const mid = (lo + hi) / 2n;
+            if ((await this.run(request, mid)).success) {
+                hi = mid;
+            } else {
+                lo = mid;
+            }
+        }
+
+        return hi;
+    }
+
+    private run(request: CallRequest, gasLimit: bigint): Promise<CallResult> {
+        return StateManager.fromSnapshot(this.state).applyCall(request, gasLimit);
+    }
+}
@@ -1,4 +1,8 @@
-import { Transaction } from './Transaction';
+import { keccak256 } from '@ethereum/util';
+import { getCreate2Address, getCreateAddress } from '../../utils/address';
+import { bufferToHex, hexToBuffer } from '../../utils/rlp';
+import { AccessListItem, Transaction } from './Transaction';
+import { LogData } from './TransactionReceipt';
 
 export interface AccountState {
     balance: bigint;
@@ -7,16 +11,53 @@ export interface AccountState {
     storageRoot?: string;
 }
 
+export interface ExecutionResult {
+    success: boolean;
+    gasUsed: bigint;
+    effectiveGasPrice: bigint;
+    logs: LogData[];
+    contractAddress: string | null;
+}
+
+/**
+ * Unsigned message executed by eth_call / eth_estimateGas
+ */
+export interface CallRequest {
+    from?: string;
+    to?: string | null;
+    value?: bigint;
+    data?: string;
+    gas?: bigint;
+    gasPrice?: bigint;
+    accessList?: AccessListItem[];
+}
+
+export interface CallResult {
+    success: boolean;
+    returnData: string;
+    gasUsed: bigint;
+    revertReason: string | null;
+}
+
+export interface ContractRecord {
+    address: string;
+    deployer: string;
+    code: string;
+    codeHash: string;
+    salt: string | null;
+    transactionHash: string | null;
+}
+
 export interface StateSnapshot {
     accounts: Map<string, AccountState>;
-    contracts: Map<string, any>;
+    contracts: Map<string, ContractRecord>;
     stateRoot: string;
     timestamp: number;
 }
 
 export class StateManager {
     private accounts: Map<string, AccountState> = new Map();
-    private contracts: Map<string, any> = new Map();
+    private contracts: Map<string, ContractRecord> = new Map();
     private snapshots: StateSnapshot[] = [];
     private currentStateRoot: string = '';
 
@@ -118,6 +159,14 @@ export class StateManager {
     }
 
     public async processTransaction(transaction: Transaction): Promise<boolean> {
+        return (await this.applyTransaction(transaction)) !== null;
+    }
+
+    /**
+     * Apply a transaction to state. Returns null if it cannot be included at all
+     * (bad sender, nonce or balance); otherwise the result used to build its receipt.
+     */
+    public async applyTransaction(transaction: Transaction): Promise<ExecutionResult | null> {
         try {
             const from = transaction.from.toLowerCase();
             const to = transaction.to?.toLowerCase();
@@ -125,35 +174,58 @@ export class StateManager {
             // Get sender account
             const fromAccount = this.accounts.get(from);
             if (!fromAccount) {
-                return false;
+                return null;
             }
 
             // Check nonce
             if (fromAccount.nonce !== transaction.nonce) {
-                return false;
+                return null;
             }
 
-            // Calculate total cost (value + gas fees)
-            const gasPrice = BigInt(transaction.gasPrice);
-            const gasLimit = BigInt(transaction.gasLimit);
-            const gasCost = gasPrice * gasLimit;
-            const totalCost = transaction.value + gasCost;
+            // Calculate gas fees at the effective price; the balance must cover the fee cap.
+            // Without an EVM, execution costs only the intrinsic gas.
+            const effectiveGasPrice = transaction.getEffectiveGasPrice();
+            const gasUsed = transaction.getIntrinsicGas();
+            if (gasUsed > transaction.gasLimit) {
+                return null;
+            }
 
             // Check balance
-            if (fromAccount.balance < totalCost) {
-                return false;
+            if (fromAccount.balance < transaction.getCost()) {
+                return null;
             }
 
             // Process transfer
             if (to && transaction.value > 0n) {
                 const success = await this.transfer(from, to, transaction.value);
                 if (!success) {
-                    return false;
+                    return null;
+                }
+            }
+
+            // Deploy contract at the address derived from the sender and its current nonce
+            let contractAddress: string | null = null;
+            let success = true;
+            let gasCharged = gasUsed;
+            if (transaction.isContractCreation()) {
+                contractAddress = getCreateAddress(from, transaction.nonce);
+                success = this.deployContract(
+                    contractAddress,
+                    from,
+                    transaction.data,
+                    transaction.value,
+                    null,
+                    transaction.hash
+                );
+
+                // A failed deployment consumes all gas, as an address collision does on Ethereum
+                if (!success) {
+                    gasCharged = transaction.gasLimit;
                 }
             }
 
             // Deduct gas fees
-            fromAccount.balance -= gasCost;
+            fromAccount.balance -= effectiveGasPrice * gasCharged;
 
             // Increment nonce
             fromAccount.nonce += 1n;
@@ -161,10 +233,160 @@ export class StateManager {
             this.accounts.set(from, fromAccount);
             this.updateStateRoot();
 
-            return true;
+            return {
+                success,
+                gasUsed: gasCharged,
+                effectiveGasPrice,
+                logs: [],
+                contractAddress
+            };
         } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Execute an unsigned call against this state. Nonces are not checked and gas is only
+     * charged when a gas price is given, matching eth_call semantics. Use on an isolated copy.
+     */
+    public async applyCall(request: CallRequest, gasLimit: bigint): Promise<CallResult> {
+        const from = (request.from || '0x' + '0'.repeat(40)).toLowerCase();
+        const to = request.to ? request.to.toLowerCase() : null;
+        const value = request.value ?? 0n;
+        const data = request.data || '0x';
+        const gasPrice = request.gasPrice ?? 0n;
+
+        const gasUsed = Transaction.calculateIntrinsicGas(data, to === null, request.accessList);
+        if (gasUsed > gasLimit) {
+            return this.revert('intrinsic gas too low', gasLimit);
+        }
+
+        const fromAccount = this.accounts.get(from) || { balance: 0n, nonce: 0n };
+        if (fromAccount.balance < gasLimit * gasPrice + value) {
+            const reason = gasPrice > 0n
+                ? 'insufficient funds for gas * price + value'
+                : 'insufficient funds for transfer';
+            return this.revert(reason, gasUsed);
+        }
+
+        fromAccount.balance -= gasUsed * gasPrice;
+        this.accounts.set(from, fromAccount);
+
+        let returnData = '0x';
+        if (to === null) {
+            const contractAddress = getCreateAddress(from, fromAccount.nonce);
+            if (!this.deployContract(contractAddress, from, data, value, null, null)) {
+                return this.revert('contract address collision', gasLimit);
+            }
+            fromAccount.nonce += 1n;
+            returnData = data;
+        } else if (value > 0n && !(await this.transfer(from, to, value))) {
+            return this.revert('insufficient funds for transfer', gasUsed);
+        }
+
+        this.updateStateRoot();
+
+        return {
+            success: true,
+            returnData,
+            gasUsed,
+            revertReason: null
+        };
+    }
+
+    private revert(reason: string, gasUsed: bigint): CallResult {
+        return {
+            success: false,
+            returnData: '0x',
+            gasUsed,
+            revertReason: reason
+        };
+    }
+
+    /**
+     * Create a contract with CREATE2 on behalf of a deployer (e.g. a factory contract).
+     * Returns the new address, or null if it collides with an existing account.
+     */
+    public async createContract2(
+        deployer: string,
+        salt: string,
+        initCode: string,
+        value: bigint = 0n
+    ): Promise<string | null> {
+        const from = deployer.toLowerCase();
+        const fromAccount = this.accounts.get(from);
+        if (!fromAccount || fromAccount.balance < value) {
+            return null;
+        }
+
+        const address = getCreate2Address(from, salt, initCode);
+        if (!this.deployContract(address, from, initCode, value, salt, null)) {
+            return null;
+        }
+
+        // The creating account's nonce is bumped as with CREATE
+        fromAccount.nonce += 1n;
+        this.accounts.set(from, fromAccount);
+        this.updateStateRoot();
+
+        return address;
+    }
+
+    /**
+     * Record a new contract account and move the endowment to it. Fails if the address already
+     * has code or a nonce (EIP-684). Without an EVM the init code is stored as the runtime code.
+     */
+    private deployContract(
+        address: string,
+        deployer: string,
+        code: string,
+        value: bigint,
+        salt: string | null,
+        transactionHash: string | null
+    ): boolean {
+        const existing = this.accounts.get(address);
+        if (existing && (existing.nonce > 0n || existing.codeHash)) {
+            return false;
+        }
+
+        const deployerAccount = this.accounts.get(deployer);
+        if (!deployerAccount || deployerAccount.balance < value) {
             return false;
         }
+
+        const codeHash = bufferToHex(keccak256(hexToBuffer(code)));
+
+        deployerAccount.balance -= value;
+        this.accounts.set(address, {
+            balance: (existing?.balance || 0n) + value,
+            nonce: 1n,
+            codeHash
+        });
+
+        this.contracts.set(address, {
+            address,
+            deployer,
+            code,
+            codeHash,
+            salt,
+            transactionHash
+        });
+
+        return true;
+    }
+
+    public getContract(address: string): ContractRecord | null {
+        return this.contracts.get(address.toLowerCase()) || null;
+    }
+
+    public getCode(address: string): string {
+        return this.contracts.get(address.toLowerCase())?.code || '0x';
+    }
+
+    public getContractsByDeployer(deployer: string): ContractRecord[] {
+        const normalizedDeployer = deployer.toLowerCase();
+        return Array.from(this.contracts.values())
+            .filter(contract => contract.deployer === normalizedDeployer);
     }
 
     public async getStateRoot(): Promise<string> {
@@ -175,7 +397,8 @@ export class StateManager {
         // Simple state root calculation based on account data
         const accountData = Array.from(this.accounts.entries())
             .sort(([a], [b]) => a.localeCompare(b))
-            .map(([address, account]) => `${address}:${account.balance}:${account.nonce}`)
+            .map(([address, account]) =>
+                `${address}:${account.balance}:${account.nonce}:${account.codeHash || ''}`)
             .join('|');
 
         // In a real implementation, this would use a Merkle tree
@@ -194,12 +417,7 @@ export class StateManager {
     }
 
     public createSnapshot(): StateSnapshot {
-        const snapshot: StateSnapshot = {
-            accounts: new Map(this.accounts),
-            contracts: new Map(this.contracts),
-            stateRoot: this.currentStateRoot,
-            timestamp: Date.now()
-        };
+        const snapshot = this.captureState();
 
         this.snapshots.push(snapshot);
 
@@ -212,11 +430,43 @@ export class StateManager {
     }
 
     public restoreSnapshot(snapshot: StateSnapshot): void {
-        this.accounts = new Map(snapshot.accounts);
+        this.accounts = this.copyAccounts(snapshot.accounts);
         this.contracts = new Map(snapshot.contracts);
         this.currentStateRoot = snapshot.stateRoot;
     }
 
+    /**
+     * Copy of the current state that is not kept in the snapshot history
+     */
+    public captureState(): StateSnapshot {
+        return {
+            accounts: this.copyAccounts(this.accounts),
+            contracts: new Map(this.contracts),
+            stateRoot: this.currentStateRoot,
+            timestamp: Date.now()
+        };
+    }
+
+    /**
+     * Isolated state manager over a copy of the given snapshot, for dry-run execution
+     */
+    public static fromSnapshot(snapshot: StateSnapshot): StateManager {
+        const stateManager = new StateManager();
+        stateManager.restoreSnapshot(snapshot);
+        return stateManager;
+    }
+
+    /**
+     * Copy account records so snapshots are not mutated by later transactions
+     */
+    private copyAccounts(accounts: Map<string, AccountState>): Map<string, AccountState> {
+        const copy = new Map<string, AccountState>();
+        for (const [address, account] of accounts) {
+            copy.set(address, { ...account });
+        }
+        return copy;
+    }
+
     public getAccount(address: string): AccountState | null {
         return this.accounts.get(address.toLowerCase()) || null;
     }
@@ -1,60 +1,185 @@
-import { keccak256 } from '@ethereum/util';
+import { ecrecover, keccak256, publicToAddress } from '@ethereum/util';
+import { getCreateAddress } from '../../utils/address';
+import {
+    bigIntToBuffer,
+    bufferToBigInt,
+    bufferToHex,
+    decodeRlp,
+    encodeRlp,
+    hexToBuffer,
+    RlpInput
+} from '../../utils/rlp';
+import { Signer } from '../wallet/Signer';
+
+// secp256k1 curve order, used to bound signature values
+const SECP256K1_N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+
+// Intrinsic gas schedule (EIP-2028 calldata, EIP-2930 access lists)
+const TX_GAS = 21000n;
+const TX_CREATE_GAS = 32000n;
+const TX_DATA_ZERO_GAS = 4n;
+const TX_DATA_NON_ZERO_GAS = 16n;
+const ACCESS_LIST_ADDRESS_GAS = 2400n;
+const ACCESS_LIST_STORAGE_KEY_GAS = 1900n;
+
+/**
+ * EIP-2718 transaction types: 0 legacy, 1 access list (EIP-2930), 2 dynamic fee (EIP-1559)
+ */
+export type TransactionType = 0 | 1 | 2;
+
+export interface AccessListItem {
+    address: string;
+    storageKeys: string[];
+}
 
 export interface TransactionData {
+    type?: TransactionType;
+    chainId?: bigint;
     nonce: bigint;
-    gasPrice: bigint;
+    gasPrice?: bigint;
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
     gasLimit: bigint;
     to: string | null;
     value: bigint;
     data: string;
+    accessList?: AccessListItem[];
     v: bigint;
     r: string;
     s: string;
 }
 
 export class Transaction {
+    public static readonly CHAIN_ID = 56n; // BSC compatible
+    public static readonly MAX_SIZE = 128 * 1024; // 128KB encoded, well under a block
+
+    public readonly type: TransactionType;
+    public readonly chainId: bigint | null;
     public readonly nonce: bigint;
-    public readonly gasPrice: bigint;
+    public readonly gasPrice: bigint; // fee cap (maxFeePerGas) for dynamic fee transactions
+    public readonly maxFeePerGas: bigint;
+    public readonly maxPriorityFeePerGas: bigint;
     public readonly gasLimit: bigint;
     public readonly to: string | null;
     public readonly value: bigint;
     public readonly data: string;
-    public readonly v: bigint;
+    public readonly accessList: AccessListItem[];
+    public readonly v: bigint; // y-parity (0 or 1) for typed transactions
     public readonly r: string;
     public readonly s: string;
     public readonly hash: string;
+    private readonly size: number;
+    private sender: string | null | undefined;
 
     constructor(txData: TransactionData) {
+        this.type = txData.type ?? 0;
         this.nonce = txData.nonce;
-        this.gasPrice = txData.gasPrice;
         this.gasLimit = txData.gasLimit;
         this.to = txData.to;
         this.value = txData.value;
         this.data = txData.data;
+        this.accessList = txData.accessList ?? [];
         this.v = txData.v;
         this.r = txData.r;
         this.s = txData.s;
-        this.hash = this.calculateHash();
+
+        if (this.type === 2) {
+            if (txData.maxFeePerGas === undefined || txData.maxPriorityFeePerGas === undefined) {
+                throw new Error(
+                    'Dynamic fee transactions require maxFeePerGas and maxPriorityFeePerGas'
+                );
+            }
+            this.maxFeePerGas = txData.maxFeePerGas;
+            this.maxPriorityFeePerGas = txData.maxPriorityFeePerGas;
+            this.gasPrice = txData.maxFeePerGas;
+        } else {
+            if (txData.gasPrice === undefined) {
+                throw new Error('Legacy and access list transactions require gasPrice');
+            }
+            this.gasPrice = txData.gasPrice;
+            this.maxFeePerGas = txData.gasPrice;
+            this.maxPriorityFeePerGas = txData.gasPrice;
+        }
+
+        // Legacy transactions carry the chain ID in v (EIP-155), typed ones explicitly
+        if (this.type === 0) {
+            this.chainId = this.v >= 35n ? (this.v - 35n) / 2n : null;
+        } else {
+            this.chainId = txData.chainId ?? Transaction.CHAIN_ID;
+        }
+
+        const encoded = this.encode();
+        this.hash = this.calculateHash(encoded);
+        this.size = encoded.length;
     }
 
     /**
-     * Calculate the hash of this transaction
+     * Calculate the hash of this transaction: keccak256 of its RLP encoding
      */
-    private calculateHash(): string {
-        const txData = {
-            nonce: this.nonce.toString(),
-            gasPrice: this.gasPrice.toString(),
-            gasLimit: this.gasLimit.toString(),
-            to: this.to,
-            value: this.value.toString(),
-            data: this.data,
-            v: this.v.toString(),
-            r: this.r,
-            s: this.s
-        };
+    private calculateHash(encoded: Buffer): string {
+        return bufferToHex(keccak256(encoded));
+    }
+
+    /**
+     * Encode the signed transaction: rlp(fields) for legacy, type || rlp(fields) for typed ones
+     */
+    private encode(): Buffer {
+        const fields = [
+            ...this.getPayloadFields(),
+            bigIntToBuffer(this.v),
+            bigIntToBuffer(BigInt(this.r)),
+            bigIntToBuffer(BigInt(this.s))
+        ];
+
+        if (this.type === 0) {
+            return encodeRlp(fields);
+        }
+        return Buffer.concat([Buffer.from([this.type]), encodeRlp(fields)]);
+    }
+
+    /**
+     * Unsigned fields in canonical order for this transaction type
+     */
+    private getPayloadFields(): RlpInput[] {
+        const to = this.to ? hexToBuffer(this.to) : Buffer.alloc(0);
+        const data = hexToBuffer(this.data || '0x');
+
+        if (this.type === 0) {
+            return [
+                bigIntToBuffer(this.nonce),
+                bigIntToBuffer(this.gasPrice),
+                bigIntToBuffer(this.gasLimit),
+                to,
+                bigIntToBuffer(this.value),
+                data
+            ];
+        }
+
+        const accessList = this.accessList.map(item => [
+            hexToBuffer(item.address),
+            item.storageKeys.map(key => hexToBuffer(key))
+        ]);
+        const fees = this.type === 2
+            ? [bigIntToBuffer(this.maxPriorityFeePerGas), bigIntToBuffer(this.maxFeePerGas)]
+            : [bigIntToBuffer(this.gasPrice)];
 
-        const txString = JSON.stringify(txData);
-        return keccak256(Buffer.from(txString)).toString('hex');
+        return [
+            bigIntToBuffer(this.chainId ?? Transaction.CHAIN_ID),
+            bigIntToBuffer(this.nonce),
+            ...fees,
+            bigIntToBuffer(this.gasLimit),
+            to,
+            bigIntToBuffer(this.value),
+            data,
+            accessList
+        ];
+    }
+
+    /**
+     * Serialize to the raw hex form accepted by eth_sendRawTransaction
+     */
+    public serialize(): string {
+        return bufferToHex(this.encode());
     }
 
     /**
@@ -67,8 +192,21 @@ export class Transaction {
                 return false;
             }
 
-            // Validate signature components
-            if (!this.r || !this.s || this.v < 0n) {
+            // Reject oversized transactions before doing any further work
+            if (this.size > Transaction.MAX_SIZE) {
+                return false;
+            }
+
+            // Validate type-specific fee fields
+            if (this.type !== 0 && this.type !== 1 && this.type !== 2) {
+                return false;
+            }
+            if (this.maxPriorityFeePerGas < 0n || this.maxPriorityFeePerGas > this.maxFeePerGas) {
+                return false;
+            }
+
+            // Validate signature and EIP-155 replay protection
+            if (this.getChainId() !== Transaction.CHAIN_ID || this.recoverSender() === null) {
                 return false;
             }
 
@@ -82,12 +220,72 @@ export class Transaction {
                 return false;
             }
 
+            // Validate access list entries
+            for (const item of this.accessList) {
+                if (!this.isValidAddress(item.address)) {
+                    return false;
+                }
+                if (!item.storageKeys.every(key => /^0x[a-fA-F0-9]{64}$/.test(key))) {
+                    return false;
+                }
+            }
+
+            // The gas limit must at least cover the intrinsic cost
+            if (this.gasLimit < this.getIntrinsicGas()) {
+                return false;
+            }
+
             return true;
         } catch (error) {
             return false;
         }
     }
 
+    /**
+     * Gas charged before execution: base cost, contract creation surcharge,
+     * calldata bytes and access list entries
+     */
+    public getIntrinsicGas(): bigint {
+        return Transaction.calculateIntrinsicGas(
+            this.data,
+            this.isContractCreation(),
+            this.accessList
+        );
+    }
+
+    /**
+     * Intrinsic gas for an arbitrary message, used when simulating unsigned calls
+     */
+    public static calculateIntrinsicGas(
+        data: string,
+        isContractCreation: boolean,
+        accessList: AccessListItem[] = []
+    ): bigint {
+        let gas = TX_GAS;
+
+        if (isContractCreation) {
+            gas += TX_CREATE_GAS;
+        }
+
+        for (const byte of hexToBuffer(data || '0x')) {
+            gas += byte === 0 ? TX_DATA_ZERO_GAS : TX_DATA_NON_ZERO_GAS;
+        }
+
+        for (const item of accessList) {
+            gas += ACCESS_LIST_ADDRESS_GAS;
+            gas += ACCESS_LIST_STORAGE_KEY_GAS * BigInt(item.storageKeys.length);
+        }
+
+        return gas;
+    }
+
+    /**
+     * Get the size of the encoded transaction in bytes
+     */
+    public getSize(): number {
+        return this.size;
+    }
+
     /**
      * Check if address is valid
      */
@@ -96,12 +294,89 @@ export class Transaction {
     }
 
     /**
-     * Get the sender address (requires signature verification)
+     * Sender address recovered from the signature
+     */
+    public get from(): string {
+        return this.getSender();
+    }
+
+    /**
+     * Get the sender address, throwing if the signature is invalid
      */
     public getSender(): string {
-        // This would normally recover the address from the signature
-        // For now, returning a placeholder
-        return '0x' + '0'.repeat(40);
+        const sender = this.recoverSender();
+        if (sender === null) {
+            throw new Error(`Invalid signature for transaction ${this.hash}`);
+        }
+        return sender;
+    }
+
+    /**
+     * Get the chain ID this transaction is bound to, or null for unprotected legacy signatures
+     */
+    public getChainId(): bigint | null {
+        return this.chainId;
+    }
+
+    /**
+     * Hash signed by the sender, including the chain ID for EIP-155 and typed transactions
+     */
+    public getSigningHash(): Buffer {
+        const fields = this.getPayloadFields();
+
+        if (this.type !== 0) {
+            return keccak256(Buffer.concat([Buffer.from([this.type]), encodeRlp(fields)]));
+        }
+
+        if (this.chainId !== null) {
+            fields.push(bigIntToBuffer(this.chainId), Buffer.alloc(0), Buffer.alloc(0));
+        }
+
+        return keccak256(encodeRlp(fields));
+    }
+
+    /**
+     * Recover the sender from v/r/s, caching the result. Returns null for invalid signatures.
+     */
+    private recoverSender(): string | null {
+        if (this.sender !== undefined) {
+            return this.sender;
+        }
+
+        this.sender = null;
+        try {
+            const r = BigInt(this.r);
+            const s = BigInt(this.s);
+
+            // Reject out-of-range values and high-s signatures (EIP-2)
+            if (r === 0n || r >= SECP256K1_N || s === 0n || s > SECP256K1_N / 2n) {
+                return null;
+            }
+
+            let recovery = this.v;
+            if (this.type === 0) {
+                recovery = this.chainId === null ? this.v - 27n : this.v - 35n - this.chainId * 2n;
+            }
+            if (recovery !== 0n && recovery !== 1n) {
+                return null;
+            }
+
+            const publicKey = ecrecover(
+                this.getSigningHash(),
+                Number(27n + recovery),
+                this.toWord(r),
+                this.toWord(s)
+            );
+            this.sender = '0x' + Buffer.from(publicToAddress(publicKey)).toString('hex');
+        } catch (error) {
+            this.sender = null;
+        }
+
+        return this.sender;
+    }
+
+    private toWord(value: bigint): Buffer {
+        return Buffer.from(value.toString(16).padStart(64, '0'), 'hex');
     }
 
     /**
@@ -112,24 +387,62 @@ export class Transaction {
     }
 
     /**
-     * Get transaction cost (gas * gasPrice + value)
+     * Address of the contract this transaction deploys, or null if it is not a deployment
+     */
+    public getContractAddress(): string | null {
+        if (!this.isContractCreation()) {
+            return null;
+        }
+        return getCreateAddress(this.from, this.nonce);
+    }
+
+    /**
+     * Get the maximum transaction cost (gas * gasPrice + value), where gasPrice is the fee cap
      */
     public getCost(): bigint {
         return this.gasLimit * this.gasPrice + this.value;
     }
 
+    /**
+     * Get the price per gas actually paid given the block base fee. AgentChain headers carry
+     * no base fee yet, so dynamic fee transactions pay their priority fee capped at maxFeePerGas.
+     */
+    public getEffectiveGasPrice(baseFee: bigint = 0n): bigint {
+        if (this.type !== 2) {
+            return this.gasPrice;
+        }
+
+        const price = baseFee + this.maxPriorityFeePerGas;
+        return price < this.maxFeePerGas ? price : this.maxFeePerGas;
+    }
+
+    /**
+     * Get the per-gas reward paid to the block producer above the base fee
+     */
+    public getEffectiveTip(baseFee: bigint = 0n): bigint {
+        return this.getEffectiveGasPrice(baseFee) - baseFee;
+    }
+
     /**
      * Serialize transaction to JSON
      */
     public toJSON(): any {
         return {
             hash: this.hash,
+            type: this.type,
+            chainId: this.chainId === null ? null : this.chainId.toString(),
+            from: this.recoverSender(),
             nonce: this.nonce.toString(),
             gasPrice: this.gasPrice.toString(),
+            ...(this.type === 2 ? {
+                maxFeePerGas: this.maxFeePerGas.toString(),
+                maxPriorityFeePerGas: this.maxPriorityFeePerGas.toString()
+            } : {}),
             gasLimit: this.gasLimit.toString(),
             to: this.to,
             value: this.value.toString(),
             data: this.data,
+            ...(this.type !== 0 ? { accessList: this.accessList } : {}),
             v: this.v.toString(),
             r: this.r,
             s: this.s
@@ -141,8 +454,8 @@ export class Transaction {
      */
     public static fromJSON(data: any): Transaction {
         const txData: TransactionData = {
+            type: data.type === undefined ? 0 : Number(data.type) as TransactionType,
             nonce: BigInt(data.nonce),
-            gasPrice: BigInt(data.gasPrice),
             gasLimit: BigInt(data.gasLimit),
             to: data.to,
             value: BigInt(data.value),
@@ -152,58 +465,182 @@ export class Transaction {
             s: data.s
         };
 
+        if (data.chainId !== undefined && data.chainId !== null) {
+            txData.chainId = BigInt(data.chainId);
+        }
+        if (data.gasPrice !== undefined) {
+            txData.gasPrice = BigInt(data.gasPrice);
+        }
+        if (data.maxFeePerGas !== undefined) {
+            txData.maxFeePerGas = BigInt(data.maxFeePerGas);
+        }
+        if (data.maxPriorityFeePerGas !== undefined) {
+            txData.maxPriorityFeePerGas = BigInt(data.maxPriorityFeePerGas);
+        }
+        if (data.accessList !== undefined) {
+            txData.accessList = data.accessList;
+        }
+
         return new Transaction(txData);
     }
 
     /**
-     * Create a simple transfer transaction
+     * Decode a raw signed transaction (as produced by wallets for eth_sendRawTransaction)
+     */
+    public static fromRaw(raw: string): Transaction {
+        const bytes = hexToBuffer(raw);
+        const type = bytes[0];
+
+        if (type === undefined) {
+            throw new Error('Invalid raw transaction: empty input');
+        }
+        if (type >= 0xc0) {
+            return Transaction.decodeLegacy(decodeRlp(bytes));
+        }
+        if (type === 1 || type === 2) {
+            return Transaction.decodeTyped(type, decodeRlp(bytes.subarray(1)));
+        }
+
+        throw new Error(`Invalid raw transaction: unsupported type ${type}`);
+    }
+
+    private static decodeLegacy(decoded: RlpInput): Transaction {
+        const fields = Transaction.expectFields(decoded, 9);
+        const [nonce, gasPrice, gasLimit, to, value, data, v, r, s] = fields;
+
+        return new Transaction({
+            type: 0,
+            nonce: bufferToBigInt(Transaction.expectBytes(nonce)),
+            gasPrice: bufferToBigInt(Transaction.expectBytes(gasPrice)),
+            gasLimit: bufferToBigInt(Transaction.expectBytes(gasLimit)),
+            to: Transaction.decodeRecipient(to),
+            value: bufferToBigInt(Transaction.expectBytes(value)),
+            data: bufferToHex(Transaction.expectBytes(data)),
+            v: bufferToBigInt(Transaction.expectBytes(v)),
+            r: Transaction.toHexWord(bufferToBigInt(Transaction.expectBytes(r))),
+            s: Transaction.toHexWord(bufferToBigInt(Transaction.expectBytes(s)))
+        });
+    }
+
+    private static decodeTyped(type: 1 | 2, decoded: RlpInput): Transaction {
+        const fields = Transaction.expectFields(decoded, type === 2 ? 12 : 11);
+        const integer = (index: number): bigint =>
+            bufferToBigInt(Transaction.expectBytes(fields[index]));
+
+        // Dynamic fee transactions carry two fee fields where access list ones carry gasPrice
+        const shift = type === 2 ? 1 : 0;
+        const txData: TransactionData = {
+            type,
+            chainId: integer(0),
+            nonce: integer(1),
+            gasLimit: integer(3 + shift),
+            to: Transaction.decodeRecipient(fields[4 + shift]),
+            value: integer(5 + shift),
+            data: bufferToHex(Transaction.expectBytes(fields[6 + shift])),
+            accessList: Transaction.decodeAccessList(fields[7 + shift]),
+            v: integer(8 + shift),
+            r: Transaction.toHexWord(integer(9 + shift)),
+            s: Transaction.toHexWord(integer(10 + shift))
+        };
+
+        if (type === 2) {
+            txData.maxPriorityFeePerGas = integer(2);
+            txData.maxFeePerGas = integer(3);
+        } else {
+            txData.gasPrice = integer(2);
+        }
+
+        return new Transaction(txData);
+    }
+
+    private static decodeAccessList(field: RlpInput | undefined): AccessListItem[] {
+        if (!Array.isArray(field)) {
+            throw new Error('Invalid raw transaction: access list must be a list');
+        }
+
+        return field.map(entry => {
+            if (!Array.isArray(entry) || entry.length !== 2 || !Array.isArray(entry[1])) {
+                throw new Error('Invalid raw transaction: malformed access list entry');
+            }
+
+            const address = Transaction.expectBytes(entry[0]);
+            const storageKeys = entry[1].map(key => Transaction.expectBytes(key));
+            if (address.length !== 20 || storageKeys.some(key => key.length !== 32)) {
+                throw new Error('Invalid raw transaction: malformed access list entry');
+            }
+
+            return {
+                address: bufferToHex(address),
+                storageKeys: storageKeys.map(key => bufferToHex(key))
+            };
+        });
+    }
+
+    private static decodeRecipient(field: RlpInput | undefined): string | null {
+        const to = Transaction.expectBytes(field);
+        if (to.length !== 0 && to.length !== 20) {
+            throw new Error('Invalid raw transaction: bad recipient length');
+        }
+        return to.length === 0 ? null : bufferToHex(to);
+    }
+
+    private static expectFields(decoded: RlpInput, count: number): RlpInput[] {
+        if (!Array.isArray(decoded) || decoded.length !== count) {
+            throw new Error(`Invalid raw transaction: expected a list of ${count} fields`);
+        }
+        return decoded;
+    }
+
+    private static expectBytes(field: RlpInput | undefined): Buffer {
+        if (field === undefined || Array.isArray(field)) {
+            throw new Error('Invalid raw transaction: expected a byte string');
+        }
+        return field;
+    }
+
+    private static toHexWord(value: bigint): string {
+        return '0x' + value.toString(16).padStart(64, '0');
+    }
+
+    /**
+     * Create a signed transfer transaction from the signer's account
      */
     public static createTransfer(
-        from: string,
+        signer: Signer,
         to: string,
         value: bigint,
         nonce: bigint,
         gasPrice: bigint = 5000000000n, // 5 Gwei
         gasLimit: bigint = 21000n
     ): Transaction {
-        const txData: TransactionData = {
+        return signer.signTransaction({
             nonce,
             gasPrice,
             gasLimit,
             to,
             value,
-            data: '0x',
-            v: 27n, // Placeholder signature
-            r: '0x' + '0'.repeat(64),
-            s: '0x' + '0'.repeat(64)
-        };
-
-        return new Transaction(txData);
+            data: '0x'
+        });
     }
 
     /**
-     * Create a contract deployment transaction
+     * Create a signed contract deployment transaction from the signer's account
      */
     public static createContractDeployment(
-        from: string,
+        signer: Signer,
         bytecode: string,
         value: bigint,
         nonce: bigint,
         gasPrice: bigint = 5000000000n, // 5 Gwei
         gasLimit: bigint = 2000000n
     ): Transaction {
-        const txData: TransactionData = {
+        return signer.signTransaction({
             nonce,
             gasPrice,
             gasLimit,
             to: null,
             value,
-            data: bytecode,
-            v: 27n, // Placeholder signature
-            r: '0x' + '0'.repeat(64),
-            s: '0x' + '0'.repeat(64)
-        };
-
-        return new Transaction(txData);
+            data: bytecode
+        });
     }
 }
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { keccak256 } from '@ethereum/util';
+import { bufferToHex, hexToBuffer } from '../../utils/rlp';
+import { Transaction } from './Transaction';
+
+export interface BundleData {
+    transactions: Transaction[];
+    minBlock?: number;
+    maxBlock?: number;
+    expiresAt?: number; // unix ms, capped at MAX_LIFETIME after receipt
+}
+
+/**
+ * Ordered group of transactions that must land in the same block, in order, or not at all
+ */
+export class TransactionBundle {
+    public static readonly MAX_TRANSACTIONS = 16;
+    public static readonly MAX_LIFETIME = 5 * 60 * 1000; // 5 minutes
+
+    public readonly id: string;
+    public readonly transactions: Transaction[];
+    public readonly minBlock: number | null;
+    public readonly maxBlock: number | null;
+    public readonly expiresAt: number;
+    public readonly receivedAt: number;
+
+    constructor(bundleData: BundleData) {
+        this.transactions = bundleData.transactions;
+        this.minBlock = bundleData.minBlock ?? null;
+        this.maxBlock = bundleData.maxBlock ?? null;
+        this.receivedAt = Date.now();
+        // Every bundle expires, so unclaimed bundles cannot fill the pool
+        this.expiresAt = Math.min(
+            bundleData.expiresAt ?? Infinity,
+            this.receivedAt + TransactionBundle.MAX_LIFETIME
+        );
+        this.id = this.calculateId();
+    }
+
+    /**
+     * Bundle id: keccak256 of the concatenated transaction hashes
+     */
+    private calculateId(): string {
+        const hashes = this.transactions.map(tx => hexToBuffer(tx.hash));
+        return bufferToHex(keccak256(Buffer.concat(hashes)));
+    }
+
+    /**
+     * Validate the bundle and every transaction in it
+     */
+    public validate(): boolean {
+        try {
+            if (this.transactions.length === 0 ||
+                this.transactions.length > TransactionBundle.MAX_TRANSACTIONS) {
+                return false;
+            }
+
+            // The same transaction cannot appear twice
+            const hashes = new Set(this.transactions.map(tx => tx.hash));
+            if (hashes.size !== this.transactions.length) {
+                return false;
+            }
+
+            if (this.minBlock !== null && this.maxBlock !== null && this.minBlock > this.maxBlock) {
+                return false;
+            }
+
+            return this.transactions.every(tx => tx.validate());
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * Check whether the bundle may be included in the given block
+     */
+    public isEligible(blockNumber: number, now: number = Date.now()): boolean {
+        if (this.isExpired(blockNumber, now)) {
+            return false;
+        }
+        return this.minBlock === null || blockNumber >= this.minBlock;
+    }
+
+    /**
+     * Check whether the bundle can no longer be included at or after the given block
+     */
+    public isExpired(blockNumber: number, now: number = Date.now()): boolean {
+        if (this.maxBlock !== null && blockNumber > this.maxBlock) {
+            return true;
+        }
+        return now >= this.expiresAt;
+    }
+
+    public includes(hash: string): boolean {
+        return this.transactions.some(tx => tx.hash === hash);
+    }
+
+    /**
+     * Serialize bundle to JSON
+     */
+    public toJSON(): any {
+        return {
+            id: this.id,
+            transactions: this.transactions.map(tx => tx.toJSON()),
+            minBlock: this.minBlock,
+            maxBlock: this.maxBlock,
+            expiresAt: this.expiresAt,
+            receivedAt: this.receivedAt
+        };
+    }
+}
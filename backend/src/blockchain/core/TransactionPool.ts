@@ -1,4 +1,11 @@
+import { EventEmitter } from 'events';
+import { IndexedHeap } from '../../utils/heap';
+import { logger } from '../../utils/logger';
+import { AdmissionPolicy, ScreeningResult } from './AdmissionPolicy';
+import { StateManager } from './StateManager';
 import { Transaction } from './Transaction';
+import { TransactionBundle } from './TransactionBundle';
+import { TxJournal } from './TxJournal';
 
 export interface PoolStats {
     pending: number;
@@ -9,77 +16,803 @@ export interface PoolStats {
     minGasPrice: string;
 }
 
-export class TransactionPool {
+export interface TransactionPoolOptions {
+    priceBump?: number; // minimum % fee increase for a same-nonce replacement
+    lifetime?: number; // ms a transaction may stay pooled before it expires
+    journalPath?: string; // on-disk journal replayed at startup; disabled if empty
+    rejournalInterval?: number; // ms between journal rotations
+}
+
+export interface PoolContent {
+    pending: Map<string, Transaction[]>; // by sender, nonce order
+    queued: Map<string, Transaction[]>;
+}
+
+export type DropReason =
+    'replaced' | 'evicted' | 'stale' | 'underfunded' | 'expired' | 'rejected';
+
+export interface PrivateTransaction {
+    transaction: Transaction;
+    maxBlock: number; // last block it may be included in
+    fallback: boolean; // move to the public pool on expiry instead of dropping
+    held: boolean; // screening or held by policy; not offered to the block producer
+}
+
+export interface TransactionStatus {
+    state: 'pending' | 'queued' | 'private' | 'screening' | 'held' | 'rejected' | 'included';
+    flagged: boolean;
+    screening: ScreeningResult | null;
+}
+
+/**
+ * Mempool with per-sender nonce lanes. Every pooled transaction is indexed by hash, by arrival
+ * time for expiry, and in a min-heap by effective tip for O(log n) eviction.
+ */
+export class TransactionPool extends EventEmitter {
+    private allTransactions: Map<string, Transaction> = new Map(); // pending and queued
     private pendingTransactions: Map<string, Transaction> = new Map();
-    private queuedTransactions: Map<string, Transaction[]> = new Map();
+    private pendingBySender: Map<string, Transaction[]> = new Map(); // executable, nonce order
+    private queuedTransactions: Map<string, Transaction[]> = new Map(); // nonce gaps, nonce order
+    private arrivals: Map<string, number> = new Map(); // hash -> added at, oldest first
+    private priced: IndexedHeap<Transaction>; // cheapest first
+    private bundles: Map<string, TransactionBundle> = new Map();
+    private held: Map<string, Transaction> = new Map(); // screening or held by policy
+    private heldBySender: Map<string, Transaction[]> = new Map();
+    private screeningQueue: Array<{ transaction: Transaction; policy: AdmissionPolicy }> = [];
+    private activeScreenings = 0;
+    private privateTransactions: Map<string, PrivateTransaction> = new Map(); // proposer only
+    private screenings: Map<string, ScreeningResult> = new Map(); // recent results by hash
+    private admissionPolicy: AdmissionPolicy | null = null;
     private readonly MAX_POOL_SIZE = 10000;
     private readonly MAX_PER_ACCOUNT = 100;
+    private readonly MAX_BUNDLES = 1000;
+    private readonly MAX_PRIVATE = 1000;
+    private readonly MAX_SCREENINGS = 10000;
+    private readonly MAX_CONCURRENT_SCREENINGS = 8;
+    private readonly priceBump: bigint;
+    private readonly lifetime: number;
+    private readonly rejournalInterval: number;
+    private journal: TxJournal | null;
+    private rejournalTimer: NodeJS.Timeout | null = null;
+    private stateManager: StateManager;
 
-    constructor() { }
+    constructor(stateManager: StateManager, options: TransactionPoolOptions = {}) {
+        super();
+        this.stateManager = stateManager;
+        this.priceBump = BigInt(options.priceBump ?? 10);
+        this.lifetime = options.lifetime ?? 3 * 60 * 60 * 1000; // 3 hours
+        this.journal = options.journalPath ? new TxJournal(options.journalPath) : null;
+        this.rejournalInterval = options.rejournalInterval ?? 60 * 60 * 1000; // 1 hour
+        this.priced = new IndexedHeap<Transaction>(
+            tx => tx.hash,
+            (a, b) => {
+                // Lowest tip first; among equal tips the newest is evicted first
+                const diff = this.compareTip(a, b);
+                if (diff !== 0) {
+                    return diff < 0;
+                }
+                return this.arrivals.get(a.hash)! > this.arrivals.get(b.hash)!;
+            }
+        );
+    }
 
+    /**
+     * Replay the journal against current state, then keep it rotated to the pool contents.
+     * Journaled transactions that are no longer valid are discarded.
+     */
     public async initialize(): Promise<void> {
-        // Initialize transaction pool
+        if (!this.journal) {
+            return;
+        }
+
+        const journaled = await this.journal.load();
+        let restored = 0;
+        for (const tx of journaled) {
+            try {
+                if (await this.admit(tx)) {
+                    restored++;
+                }
+            } catch (error) {
+                // Stale nonce, insufficient funds or outbid since it was journaled
+            }
+        }
+
+        await this.rejournal();
+        this.rejournalTimer = setInterval(() => this.rejournal(), this.rejournalInterval);
+
+        logger.info('Transaction pool restored from journal', {
+            journaled: journaled.length,
+            restored
+        });
     }
 
+    /**
+     * Stop journal rotation and write out the current pool contents
+     */
+    public async close(): Promise<void> {
+        if (this.rejournalTimer) {
+            clearInterval(this.rejournalTimer);
+            this.rejournalTimer = null;
+        }
+
+        await this.rejournal();
+    }
+
+    /**
+     * Rewrite the journal to hold exactly the transactions currently pooled or held
+     */
+    private async rejournal(): Promise<void> {
+        if (this.journal) {
+            await this.journal.rotate([
+                ...this.allTransactions.values(),
+                ...this.held.values()
+            ]);
+        }
+    }
+
+    /**
+     * Screen selected transactions before they may become pending. Set before initialize() so
+     * that journaled transactions are screened again when they are replayed.
+     */
+    public setAdmissionPolicy(policy: AdmissionPolicy | null): void {
+        this.admissionPolicy = policy;
+    }
+
+    /**
+     * Add a transaction to the pool. Nonces below the account nonce and senders who cannot
+     * cover getCost() are rejected with an error. A transaction with the same sender and nonce
+     * as one already pooled or held replaces it if both its fee cap and tip are at least
+     * priceBump% higher; otherwise it is rejected with an error.
+     */
     public async addTransaction(transaction: Transaction): Promise<boolean> {
-        try {
-            // Validate transaction
-            if (!transaction.validate()) {
-                return false;
+        const added = await this.admit(transaction);
+        if (added) {
+            this.emit('added', transaction);
+            if (this.journal) {
+                await this.journal.insert(transaction);
             }
+        }
+        return added;
+    }
+
+    /**
+     * Add a transaction to the private lane. It is checked like a public submission but never
+     * listed, announced or journaled; only the local block producer sees it, up to and
+     * including maxBlock. On expiry it moves to the public pool if fallback is set. The
+     * per-account limit and replace-by-fee apply within the private lane, and transactions
+     * the admission policy selects are screened before the block producer may include them.
+     */
+    public async addPrivateTransaction(
+        transaction: Transaction,
+        maxBlock: number,
+        fallback: boolean = false
+    ): Promise<boolean> {
+        if (!transaction.validate() || this.hasTransaction(transaction.hash)) {
+            return false;
+        }
+
+        this.checkSenderState(transaction);
+
+        const sender = transaction.from.toLowerCase();
+        const fromSender = Array.from(this.privateTransactions.values())
+            .map(entry => entry.transaction)
+            .filter(tx => tx.from.toLowerCase() === sender);
 
-            // Check if transaction already exists
-            if (this.pendingTransactions.has(transaction.hash)) {
-                return false;
+        // Same nonce as a private transaction: replace by fee
+        const existing = fromSender.find(tx => tx.nonce === transaction.nonce);
+        if (existing) {
+            this.checkReplacement(existing, transaction);
+            this.privateTransactions.delete(existing.hash);
+        } else if (fromSender.length >= this.MAX_PER_ACCOUNT) {
+            throw new Error(
+                `too many private transactions from sender (limit ${this.MAX_PER_ACCOUNT})`
+            );
+        } else if (this.privateTransactions.size >= this.MAX_PRIVATE) {
+            throw new Error('private transaction lane is full');
+        }
+
+        const screen = this.admissionPolicy?.shouldScreen(transaction, this.stateManager);
+        this.privateTransactions.set(transaction.hash, {
+            transaction,
+            maxBlock,
+            fallback,
+            held: screen === true
+        });
+        if (screen) {
+            this.screeningQueue.push({ transaction, policy: this.admissionPolicy! });
+            this.startScreenings();
+        }
+        return true;
+    }
+
+    private async admit(transaction: Transaction, screened: boolean = false): Promise<boolean> {
+        // Validate transaction
+        if (!transaction.validate()) {
+            return false;
+        }
+
+        // Check if transaction already exists
+        if (this.hasTransaction(transaction.hash)) {
+            return false;
+        }
+
+        const sender = transaction.from.toLowerCase();
+
+        this.checkSenderState(transaction);
+
+        // Same nonce as a pooled or held transaction: the newcomer must outbid both
+        const existing = this.findBySenderAndNonce(sender, transaction.nonce);
+        const held = this.heldBySender.get(sender)?.find(tx => tx.nonce === transaction.nonce);
+        for (const previous of [existing, held]) {
+            if (previous) {
+                this.checkReplacement(previous, transaction);
             }
+        }
+        if (held) {
+            this.dropTransaction(held, 'replaced');
+        }
 
-            // Check pool size limit
-            if (this.pendingTransactions.size >= this.MAX_POOL_SIZE) {
-                // Remove lowest fee transactions
-                this.evictLowestFeeTransactions();
+        // Hold transactions selected by the admission policy until they are screened. Held
+        // transactions count against the per-account and pool limits; a replacement takes
+        // the place of the one it outbid.
+        if (!screened && this.admissionPolicy?.shouldScreen(transaction, this.stateManager)) {
+            if (!existing && !held) {
+                if (this.countBySender(sender) >= this.MAX_PER_ACCOUNT) {
+                    return false;
+                }
+                if (this.allTransactions.size + this.held.size >= this.MAX_POOL_SIZE) {
+                    this.evictLowestFeeTransaction(transaction);
+                }
             }
 
-            // Add to pending pool
-            this.pendingTransactions.set(transaction.hash, transaction);
+            this.hold(sender, transaction);
+            this.screeningQueue.push({ transaction, policy: this.admissionPolicy });
+            this.startScreenings();
+            return true;
+        }
 
+        // Same nonce as a pooled transaction: replace by fee
+        if (existing) {
+            this.replaceTransaction(sender, existing, transaction);
             return true;
+        }
+
+        // Nonces taken by the pending lane but not found above cannot be added
+        if (transaction.nonce < this.getPendingNonce(sender)) {
+            return false;
+        }
+
+        // Check per-account limit
+        if (this.countBySender(sender) >= this.MAX_PER_ACCOUNT) {
+            return false;
+        }
+
+        // Check pool size limit, making room by evicting the cheapest transaction
+        if (this.allTransactions.size + this.held.size >= this.MAX_POOL_SIZE) {
+            this.evictLowestFeeTransaction(transaction);
+        }
+
+        // Read the next nonce after eviction, which may have taken one of the sender's own
+        // pending transactions and moved its successors back to the queue
+        if (transaction.nonce === this.getPendingNonce(sender)) {
+            // Executable now: append to the pending lane and promote any queued successors
+            this.addPending(sender, transaction);
+            this.promoteQueued(sender);
+        } else {
+            // Nonce gap: hold until the missing nonces arrive
+            this.addQueued(sender, transaction);
+        }
+
+        return true;
+    }
+
+    /**
+     * Reject nonces the sender has already used and transactions the sender cannot pay for
+     */
+    private checkSenderState(transaction: Transaction): void {
+        const account = this.stateManager.getAccount(transaction.from.toLowerCase());
+        const accountNonce = account?.nonce ?? 0n;
+        if (transaction.nonce < accountNonce) {
+            throw new Error(
+                `nonce too low: next nonce ${accountNonce}, tx nonce ${transaction.nonce}`
+            );
+        }
+
+        const balance = account?.balance ?? 0n;
+        if (balance < transaction.getCost()) {
+            throw new Error(
+                `insufficient funds for gas * price + value: balance ${balance}, ` +
+                `tx cost ${transaction.getCost()}`
+            );
+        }
+    }
+
+    /**
+     * Reject a same-nonce replacement whose fee cap or tip is not priceBump% higher
+     */
+    private checkReplacement(existing: Transaction, replacement: Transaction): void {
+        const multiplier = 100n + this.priceBump;
+        const minFeeCap = (existing.maxFeePerGas * multiplier + 99n) / 100n;
+        const minTip = (existing.maxPriorityFeePerGas * multiplier + 99n) / 100n;
+
+        if (replacement.maxFeePerGas < minFeeCap || replacement.maxPriorityFeePerGas < minTip) {
+            throw new Error(
+                `replacement transaction underpriced: nonce ${existing.nonce} needs ` +
+                `fee cap >= ${minFeeCap} and tip >= ${minTip} ` +
+                `(${this.priceBump}% bump over ${existing.hash})`
+            );
+        }
+    }
+
+    /**
+     * Swap a pooled transaction for a higher priced one with the same sender and nonce
+     */
+    private replaceTransaction(
+        sender: string,
+        existing: Transaction,
+        replacement: Transaction
+    ): void {
+        this.checkReplacement(existing, replacement);
+
+        const lane = this.pendingTransactions.has(existing.hash)
+            ? this.pendingBySender.get(sender)
+            : this.queuedTransactions.get(sender);
+        if (lane) {
+            lane[lane.indexOf(existing)] = replacement;
+        }
+
+        if (this.pendingTransactions.delete(existing.hash)) {
+            this.pendingTransactions.set(replacement.hash, replacement);
+        }
+
+        this.untrack(existing);
+        this.track(replacement);
+
+        this.emit('dropped', existing, 'replaced');
+    }
+
+    private hold(sender: string, transaction: Transaction): void {
+        this.held.set(transaction.hash, transaction);
+        this.arrivals.set(transaction.hash, Date.now());
+        const lane = this.heldBySender.get(sender) || [];
+        lane.push(transaction);
+        this.heldBySender.set(sender, lane);
+    }
+
+    private unhold(hash: string): Transaction | null {
+        const transaction = this.held.get(hash);
+        if (!transaction) {
+            return null;
+        }
+
+        this.held.delete(hash);
+        this.arrivals.delete(hash);
+        const sender = transaction.from.toLowerCase();
+        const lane = (this.heldBySender.get(sender) || []).filter(tx => tx.hash !== hash);
+        if (lane.length > 0) {
+            this.heldBySender.set(sender, lane);
+        } else {
+            this.heldBySender.delete(sender);
+        }
+        return transaction;
+    }
+
+    /**
+     * Start queued screenings, at most MAX_CONCURRENT_SCREENINGS at a time. Transactions
+     * replaced, removed or expired while waiting are skipped.
+     */
+    private startScreenings(): void {
+        while (this.activeScreenings < this.MAX_CONCURRENT_SCREENINGS &&
+            this.screeningQueue.length > 0) {
+            const { transaction, policy } = this.screeningQueue.shift()!;
+            if (!this.isHeld(transaction.hash)) {
+                continue;
+            }
+
+            this.activeScreenings++;
+            this.screenTransaction(transaction, policy).finally(() => {
+                this.activeScreenings--;
+                this.startScreenings();
+            });
+        }
+    }
+
+    /**
+     * Screen a held public or private transaction and act on the outcome: reject drops it,
+     * hold keeps it held, accept and flag admit it
+     */
+    private async screenTransaction(
+        transaction: Transaction,
+        policy: AdmissionPolicy
+    ): Promise<void> {
+        let result: ScreeningResult;
+        try {
+            result = await policy.screen(transaction);
+        } catch (error) {
+            logger.error('Transaction screening failed:', error);
+            result = { outcome: 'hold', verdicts: [], screenedAt: Date.now() };
+        }
+
+        // Removed or expired while screening
+        if (!this.isHeld(transaction.hash)) {
+            return;
+        }
+
+        this.recordScreening(transaction.hash, result);
+
+        if (result.outcome === 'reject') {
+            // Nothing about the private lane is emitted
+            if (!this.privateTransactions.delete(transaction.hash)) {
+                this.dropTransaction(transaction, 'rejected');
+            }
+        } else if (result.outcome !== 'hold') {
+            await this.releaseHeld(transaction.hash);
+        }
+    }
+
+    private isHeld(hash: string): boolean {
+        return this.held.has(hash) || this.privateTransactions.get(hash)?.held === true;
+    }
+
+    private recordScreening(hash: string, result: ScreeningResult): void {
+        this.screenings.set(hash, result);
+        if (this.screenings.size > this.MAX_SCREENINGS) {
+            const oldest = this.screenings.keys().next().value;
+            if (oldest !== undefined) {
+                this.screenings.delete(oldest);
+            }
+        }
+    }
+
+    /**
+     * Admit a held transaction, e.g. after an operator has reviewed it. Returns false if it
+     * is not held or is no longer valid against current state. A held private transaction
+     * returns to the private lane.
+     */
+    public async releaseHeld(hash: string): Promise<boolean> {
+        const entry = this.privateTransactions.get(hash);
+        if (entry?.held) {
+            entry.held = false;
+            return true;
+        }
+
+        const transaction = this.unhold(hash);
+        if (!transaction) {
+            return false;
+        }
+
+        try {
+            return await this.admit(transaction, true);
         } catch (error) {
+            this.emit('dropped', transaction, 'stale');
             return false;
         }
     }
 
+    /**
+     * Transactions awaiting screening or held by the admission policy
+     */
+    public getHeldTransactions(): Transaction[] {
+        return Array.from(this.held.values());
+    }
+
+    /**
+     * Pool state of a transaction with any screening verdicts and their reasoning
+     */
+    public getTransactionStatus(hash: string): TransactionStatus | null {
+        const screening = this.screenings.get(hash) || null;
+        const flagged = screening?.outcome === 'flag';
+
+        const entry = this.privateTransactions.get(hash);
+        if (entry) {
+            const state = !entry.held ? 'private' : screening ? 'held' : 'screening';
+            return { state, flagged, screening };
+        }
+        if (this.pendingTransactions.has(hash)) {
+            return { state: 'pending', flagged, screening };
+        }
+        if (this.allTransactions.has(hash)) {
+            return { state: 'queued', flagged, screening };
+        }
+        if (this.held.has(hash)) {
+            return { state: screening ? 'held' : 'screening', flagged, screening };
+        }
+        if (screening?.outcome === 'reject') {
+            return { state: 'rejected', flagged, screening };
+        }
+
+        return null;
+    }
+
     public async removeTransaction(hash: string): Promise<boolean> {
-        return this.pendingTransactions.delete(hash);
+        // A bundle can no longer land whole once one of its transactions is mined elsewhere
+        for (const bundle of this.bundles.values()) {
+            if (bundle.includes(hash)) {
+                this.bundles.delete(bundle.id);
+            }
+        }
+
+        if (this.unhold(hash)) {
+            return true;
+        }
+
+        if (this.privateTransactions.delete(hash)) {
+            return true;
+        }
+
+        const transaction = this.allTransactions.get(hash);
+        if (!transaction) {
+            return false;
+        }
+
+        this.removeFromLanes(transaction);
+        return true;
+    }
+
+    /**
+     * Add a bundle to be included whole, in order, in a single block. Like a single
+     * submission, a transaction whose nonce is used or whose sender cannot cover getCost()
+     * is rejected with an error. Bundles cannot wait for screening, so one containing a
+     * transaction the admission policy selects is rejected with an error too.
+     */
+    public async addBundle(bundle: TransactionBundle): Promise<boolean> {
+        if (!bundle.validate() || this.bundles.has(bundle.id)) {
+            return false;
+        }
+
+        for (const transaction of bundle.transactions) {
+            this.checkSenderState(transaction);
+            if (this.admissionPolicy?.shouldScreen(transaction, this.stateManager)) {
+                throw new Error(
+                    `bundle transaction ${transaction.hash} requires screening; ` +
+                    'submit it on its own'
+                );
+            }
+        }
+
+        if (bundle.isExpired(0) || this.bundles.size >= this.MAX_BUNDLES) {
+            return false;
+        }
+
+        this.bundles.set(bundle.id, bundle);
+        return true;
+    }
+
+    /**
+     * Re-check pooled transactions against state after a block: drop expired transactions,
+     * nonces the chain has passed and transactions the sender can no longer pay for, then
+     * refill pending lanes. Private transactions past their last block are expired too.
+     */
+    public revalidate(headNumber?: number): void {
+        this.expire();
+        this.revalidatePrivate(headNumber);
+
+        const senders = new Set([
+            ...this.pendingBySender.keys(),
+            ...this.queuedTransactions.keys()
+        ]);
+
+        for (const sender of senders) {
+            const account = this.stateManager.getAccount(sender);
+            const accountNonce = account?.nonce ?? 0n;
+            const balance = account?.balance ?? 0n;
+
+            const pooled = [
+                ...(this.pendingBySender.get(sender) || []),
+                ...(this.queuedTransactions.get(sender) || [])
+            ];
+
+            for (const tx of pooled) {
+                if (tx.nonce < accountNonce) {
+                    this.dropTransaction(tx, 'stale');
+                } else if (tx.getCost() > balance) {
+                    this.dropTransaction(tx, 'underfunded');
+                }
+            }
+
+            this.promoteQueued(sender);
+        }
+    }
+
+    /**
+     * Drop private transactions that were included or can no longer be, and move expired ones
+     * that opted in to the public pool. Nothing about the private lane is emitted; a
+     * transaction still held by screening is dropped rather than published.
+     */
+    private revalidatePrivate(headNumber?: number): void {
+        for (const [hash, entry] of this.privateTransactions) {
+            const { transaction } = entry;
+            const account = this.stateManager.getAccount(transaction.from.toLowerCase());
+
+            if (transaction.nonce < (account?.nonce ?? 0n) ||
+                transaction.getCost() > (account?.balance ?? 0n)) {
+                this.privateTransactions.delete(hash);
+                continue;
+            }
+
+            if (headNumber === undefined || headNumber < entry.maxBlock) {
+                continue;
+            }
+
+            this.privateTransactions.delete(hash);
+            if (entry.fallback && !entry.held) {
+                this.publish(transaction).catch(error => {
+                    logger.debug('Expired private transaction not admitted to public pool', {
+                        hash,
+                        error: error instanceof Error ? error.message : String(error)
+                    });
+                });
+            }
+        }
+    }
+
+    /**
+     * Move an expired private transaction to the public pool. It was screened when it was
+     * submitted, so it goes straight to the public lanes and is announced and journaled only
+     * once it is there.
+     */
+    private async publish(transaction: Transaction): Promise<void> {
+        if (!(await this.admit(transaction, true))) {
+            return;
+        }
+
+        this.emit('added', transaction);
+        if (this.journal) {
+            await this.journal.insert(transaction);
+        }
+    }
+
+    /**
+     * Drop transactions that have been pooled longer than the configured lifetime
+     */
+    public expire(now: number = Date.now()): void {
+        for (const [hash, addedAt] of this.arrivals) {
+            if (addedAt + this.lifetime > now) {
+                break;
+            }
+
+            const transaction = this.allTransactions.get(hash) || this.held.get(hash);
+            if (transaction) {
+                this.dropTransaction(transaction, 'expired');
+            }
+        }
+    }
+
+    private dropTransaction(transaction: Transaction, reason: DropReason): void {
+        if (this.unhold(transaction.hash)) {
+            this.emit('dropped', transaction, reason);
+        } else if (this.allTransactions.has(transaction.hash)) {
+            this.removeFromLanes(transaction);
+            this.emit('dropped', transaction, reason);
+        }
+    }
+
+    private removeFromLanes(transaction: Transaction): void {
+        if (this.pendingTransactions.has(transaction.hash)) {
+            this.removePending(transaction);
+            return;
+        }
+
+        const sender = transaction.from.toLowerCase();
+        const queue = this.queuedTransactions.get(sender) || [];
+        const index = queue.indexOf(transaction);
+        if (index !== -1) {
+            queue.splice(index, 1);
+        }
+        if (queue.length === 0) {
+            this.queuedTransactions.delete(sender);
+        }
+
+        this.untrack(transaction);
+    }
+
+    public async removeBundle(id: string): Promise<boolean> {
+        return this.bundles.delete(id);
+    }
+
+    public getBundle(id: string): TransactionBundle | null {
+        return this.bundles.get(id) || null;
+    }
+
+    /**
+     * Bundles that may be included in the given block, in submission order.
+     * Bundles that can no longer be included are dropped.
+     */
+    public getBundles(blockNumber: number): TransactionBundle[] {
+        const now = Date.now();
+        const eligible: TransactionBundle[] = [];
+
+        for (const bundle of this.bundles.values()) {
+            if (bundle.isExpired(blockNumber, now)) {
+                this.bundles.delete(bundle.id);
+            } else if (bundle.isEligible(blockNumber, now)) {
+                eligible.push(bundle);
+            }
+        }
+
+        return eligible;
+    }
+
+    /**
+     * Private transactions that may be included in the given block, in submission order with
+     * each sender's transactions in nonce order
+     */
+    public getPrivateTransactions(blockNumber: number): Transaction[] {
+        const bySender: Map<string, Transaction[]> = new Map();
+
+        for (const { transaction, maxBlock, held } of this.privateTransactions.values()) {
+            if (held || maxBlock < blockNumber) {
+                continue;
+            }
+            const sender = transaction.from.toLowerCase();
+            const transactions = bySender.get(sender) || [];
+            transactions.push(transaction);
+            bySender.set(sender, transactions);
+        }
+
+        const eligible: Transaction[] = [];
+        for (const transactions of bySender.values()) {
+            transactions.sort((a, b) => (a.nonce < b.nonce ? -1 : a.nonce > b.nonce ? 1 : 0));
+            eligible.push(...transactions);
+        }
+        return eligible;
     }
 
+    /**
+     * Pooled transaction by hash. Private transactions are not returned.
+     */
     public getTransaction(hash: string): Transaction | null {
-        return this.pendingTransactions.get(hash) || null;
+        return this.allTransactions.get(hash) || this.held.get(hash) || null;
     }
 
+    /**
+     * Executable transactions by effective tip (highest first), keeping each sender's
+     * transactions in nonce order. Merges the sender lanes through a heap of lane heads,
+     * so only the returned transactions are touched.
+     */
     public async getPendingTransactions(limit: number = 100): Promise<Transaction[]> {
-        const transactions = Array.from(this.pendingTransactions.values());
+        const cursors: Map<string, number> = new Map();
+        const heads = new IndexedHeap<Transaction>(
+            tx => tx.hash,
+            (a, b) => this.compareTip(a, b) > 0
+        );
 
-        // Sort by gas price (descending) and nonce (ascending)
-        transactions.sort((a, b) => {
-            const gasPriceDiff = parseFloat(b.gasPrice) - parseFloat(a.gasPrice);
-            if (gasPriceDiff !== 0) return gasPriceDiff;
-            return Number(a.nonce) - Number(b.nonce);
-        });
+        for (const lane of this.pendingBySender.values()) {
+            heads.push(lane[0]!);
+        }
 
-        return transactions.slice(0, limit);
+        const transactions: Transaction[] = [];
+        while (transactions.length < limit && heads.size > 0) {
+            const tx = heads.pop()!;
+            transactions.push(tx);
+
+            const sender = tx.from.toLowerCase();
+            const cursor = (cursors.get(sender) ?? 0) + 1;
+            const next = this.pendingBySender.get(sender)?.[cursor];
+            cursors.set(sender, cursor);
+            if (next) {
+                heads.push(next);
+            }
+        }
+
+        return transactions;
     }
 
     public getSize(): number {
         return this.pendingTransactions.size;
     }
 
+    public getQueuedCount(): number {
+        return this.allTransactions.size - this.pendingTransactions.size;
+    }
+
     public getStats(): PoolStats {
         const transactions = Array.from(this.pendingTransactions.values());
 
         if (transactions.length === 0) {
             return {
                 pending: 0,
-                queued: 0,
+                queued: this.getQueuedCount(),
                 totalFees: '0',
                 avgGasPrice: '0',
                 maxGasPrice: '0',
@@ -87,44 +820,214 @@ export class TransactionPool {
             };
         }
 
-        const gasPrices = transactions.map(tx => parseFloat(tx.gasPrice));
-        const totalFees = transactions.reduce((sum, tx) => {
-            return sum + (parseFloat(tx.gasPrice) * parseFloat(tx.gasLimit.toString()));
-        }, 0);
+        // Accumulate exactly in bigint; convert only for display
+        let totalFees = 0n;
+        let totalGasPrice = 0n;
+        let maxGasPrice = transactions[0]!.getEffectiveGasPrice();
+        let minGasPrice = maxGasPrice;
+        for (const tx of transactions) {
+            const gasPrice = tx.getEffectiveGasPrice();
+            totalFees += gasPrice * tx.gasLimit;
+            totalGasPrice += gasPrice;
+            if (gasPrice > maxGasPrice) maxGasPrice = gasPrice;
+            if (gasPrice < minGasPrice) minGasPrice = gasPrice;
+        }
+        const avgGasPrice = totalGasPrice / BigInt(transactions.length);
 
         return {
             pending: this.pendingTransactions.size,
-            queued: 0, // Simplified for now
-            totalFees: (totalFees / 1e18).toFixed(6), // Convert to 
-            avgGasPrice: (gasPrices.reduce((a, b) => a + b, 0) / gasPrices.length / 1e9).toFixed(2), // Gwei
-            maxGasPrice: (Math.max(...gasPrices) / 1e9).toFixed(2), // Gwei
-            minGasPrice: (Math.min(...gasPrices) / 1e9).toFixed(2) // Gwei
+            queued: this.getQueuedCount(),
+            totalFees: (Number(totalFees) / 1e18).toFixed(6), // Convert to AGENTCHAIN
+            avgGasPrice: (Number(avgGasPrice) / 1e9).toFixed(2), // Gwei
+            maxGasPrice: (Number(maxGasPrice) / 1e9).toFixed(2), // Gwei
+            minGasPrice: (Number(minGasPrice) / 1e9).toFixed(2) // Gwei
         };
     }
 
-    private evictLowestFeeTransactions(): void {
-        const transactions = Array.from(this.pendingTransactions.entries());
+    /**
+     * Make room for an incoming transaction by evicting the cheapest pooled one. A full pool
+     * rejects transactions that do not pay a higher tip than everything in it.
+     */
+    private evictLowestFeeTransaction(incoming: Transaction): void {
+        const cheapest = this.priced.peek();
+        if (!cheapest || this.compareTip(incoming, cheapest) <= 0) {
+            throw new Error(
+                `transaction underpriced: pool is full and tip ${incoming.getEffectiveTip()} ` +
+                `does not exceed the lowest pooled tip`
+            );
+        }
+
+        this.dropTransaction(cheapest, 'evicted');
+    }
+
+    private track(transaction: Transaction): void {
+        this.allTransactions.set(transaction.hash, transaction);
+        this.arrivals.set(transaction.hash, Date.now());
+        this.priced.push(transaction);
+    }
+
+    private untrack(transaction: Transaction): void {
+        this.priced.remove(transaction.hash);
+        this.arrivals.delete(transaction.hash);
+        this.allTransactions.delete(transaction.hash);
+        this.pendingTransactions.delete(transaction.hash);
+    }
+
+    private addPending(sender: string, transaction: Transaction): void {
+        const lane = this.pendingBySender.get(sender) || [];
+        lane.push(transaction);
+        this.pendingBySender.set(sender, lane);
+        this.pendingTransactions.set(transaction.hash, transaction);
+        if (!this.allTransactions.has(transaction.hash)) {
+            this.track(transaction);
+        }
+    }
+
+    /**
+     * Remove a pending transaction. If it was not mined, later nonces from the same sender
+     * are no longer executable and move back to the queue.
+     */
+    private removePending(transaction: Transaction): void {
+        const sender = transaction.from.toLowerCase();
+        const lane = this.pendingBySender.get(sender) || [];
+        const index = lane.indexOf(transaction);
+        this.untrack(transaction);
+
+        if (index === -1) {
+            return;
+        }
+
+        const stranded = transaction.nonce >= this.getAccountNonce(sender)
+            ? lane.slice(index + 1)
+            : [];
+        lane.splice(index, 1 + stranded.length);
+
+        for (const tx of stranded) {
+            this.pendingTransactions.delete(tx.hash);
+            this.addQueued(sender, tx);
+        }
+
+        if (lane.length === 0) {
+            this.pendingBySender.delete(sender);
+        }
+
+        this.promoteQueued(sender);
+    }
+
+    private addQueued(sender: string, transaction: Transaction): void {
+        const queue = this.queuedTransactions.get(sender) || [];
 
-        // Sort by gas price (ascending) to find lowest fee transactions
-        transactions.sort(([, a], [, b]) => parseFloat(a.gasPrice) - parseFloat(b.gasPrice));
+        // Binary search for the nonce-ordered insertion point
+        let lo = 0;
+        let hi = queue.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (queue[mid]!.nonce < transaction.nonce) {
+                lo = mid + 1;
+            } else {
+                hi = mid;
+            }
+        }
+        queue.splice(lo, 0, transaction);
+
+        this.queuedTransactions.set(sender, queue);
+        if (!this.allTransactions.has(transaction.hash)) {
+            this.track(transaction);
+        }
+    }
+
+    private findBySenderAndNonce(sender: string, nonce: bigint): Transaction | null {
+        const lanes = [this.pendingBySender.get(sender), this.queuedTransactions.get(sender)];
+        for (const lane of lanes) {
+            const match = lane?.find(tx => tx.nonce === nonce);
+            if (match) {
+                return match;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Move queued transactions whose nonce gap has filled into the pending lane, and drop
+     * queued transactions the chain has already moved past
+     */
+    private promoteQueued(sender: string): void {
+        const queue = this.queuedTransactions.get(sender);
+        if (!queue) {
+            return;
+        }
+
+        const accountNonce = this.getAccountNonce(sender);
+        while (queue.length > 0) {
+            const next = queue[0]!;
+            if (next.nonce < accountNonce) {
+                const stale = queue.shift()!;
+                this.untrack(stale);
+                this.emit('dropped', stale, 'stale');
+            } else if (next.nonce === this.getPendingNonce(sender)) {
+                this.addPending(sender, queue.shift()!);
+            } else {
+                break;
+            }
+        }
 
-        // Remove bottom 10%
-        const removeCount = Math.floor(transactions.length * 0.1);
-        for (let i = 0; i < removeCount; i++) {
-            const [hash] = transactions[i];
-            this.pendingTransactions.delete(hash);
+        if (queue.length === 0) {
+            this.queuedTransactions.delete(sender);
         }
     }
 
+    private countBySender(sender: string): number {
+        return (this.pendingBySender.get(sender)?.length || 0) +
+            (this.queuedTransactions.get(sender)?.length || 0) +
+            (this.heldBySender.get(sender)?.length || 0);
+    }
+
+    private getAccountNonce(sender: string): bigint {
+        return this.stateManager.getAccount(sender)?.nonce ?? 0n;
+    }
+
+    /**
+     * Compare effective tips exactly, so dynamic fee and legacy transactions rank together
+     */
+    private compareTip(a: Transaction, b: Transaction): number {
+        const tipA = a.getEffectiveTip();
+        const tipB = b.getEffectiveTip();
+        if (tipA === tipB) return 0;
+        return tipA > tipB ? 1 : -1;
+    }
+
     public clear(): void {
+        this.allTransactions.clear();
+        this.held.clear();
+        this.heldBySender.clear();
+        this.screeningQueue = [];
+        this.privateTransactions.clear();
+        this.arrivals.clear();
+        this.priced.clear();
         this.pendingTransactions.clear();
+        this.pendingBySender.clear();
         this.queuedTransactions.clear();
+        this.bundles.clear();
+    }
+
+    /**
+     * Snapshot of the pending and queued lanes grouped by sender. Held transactions are not
+     * part of either lane and are left out.
+     */
+    public getContent(): PoolContent {
+        const copy = (lanes: Map<string, Transaction[]>) =>
+            new Map(Array.from(lanes, ([sender, lane]) => [sender, [...lane]]));
+
+        return {
+            pending: copy(this.pendingBySender),
+            queued: copy(this.queuedTransactions)
+        };
     }
 
     public getTransactionsByAddress(address: string): Transaction[] {
         const transactions: Transaction[] = [];
 
-        for (const tx of this.pendingTransactions.values()) {
+        for (const tx of this.allTransactions.values()) {
             if (tx.from.toLowerCase() === address.toLowerCase() ||
                 (tx.to && tx.to.toLowerCase() === address.toLowerCase())) {
                 transactions.push(tx);
@@ -135,21 +1038,17 @@ export class TransactionPool {
     }
 
     public hasTransaction(hash: string): boolean {
-        return this.pendingTransactions.has(hash);
+        return this.allTransactions.has(hash) || this.held.has(hash) ||
+            this.privateTransactions.has(hash);
     }
 
+    /**
+     * Next nonce for the sender: the account nonce advanced past its pending lane.
+     * Queued transactions behind a gap do not count.
+     */
     public getPendingNonce(address: string): bigint {
-        const transactions = this.getTransactionsByAddress(address);
-
-        if (transactions.length === 0) {
-            return 0n;
-        }
-
-        // Find highest nonce for this address
-        const maxNonce = transactions.reduce((max, tx) => {
-            return tx.nonce > max ? tx.nonce : max;
-        }, 0n);
-
-        return maxNonce + 1n;
+        const lane = this.pendingBySender.get(address.toLowerCase());
+        const last = lane?.[lane.length - 1];
+        return last ? last.nonce + 1n : this.getAccountNonce(address.toLowerCase());
     }
 }
\ No newline at end of file
@@ -0,0 +1,156 @@
+import { keccak256 } from '@ethereum/util';
+import { bigIntToBuffer, bufferToHex, encodeRlp, hexToBuffer } from '../../utils/rlp';
+import { TransactionType } from './Transaction';
+
+export const EMPTY_LOGS_BLOOM = '0x' + '0'.repeat(512);
+
+/**
+ * Log emitted during execution, before it is placed in a block
+ */
+export interface LogData {
+    address: string;
+    topics: string[];
+    data: string;
+}
+
+/**
+ * Log with its position in the chain
+ */
+export interface Log extends LogData {
+    blockNumber: bigint;
+    blockHash: string;
+    transactionHash: string;
+    transactionIndex: number;
+    logIndex: number;
+    removed: boolean;
+}
+
+export interface ReceiptData {
+    type: TransactionType;
+    status: 0 | 1;
+    transactionHash: string;
+    transactionIndex: number;
+    blockHash: string;
+    blockNumber: bigint;
+    from: string;
+    to: string | null;
+    gasUsed: bigint;
+    cumulativeGasUsed: bigint;
+    effectiveGasPrice: bigint;
+    contractAddress: string | null;
+    logs: Log[];
+    logsBloom: string;
+}
+
+export class TransactionReceipt {
+    public readonly type: TransactionType;
+    public readonly status: 0 | 1;
+    public readonly transactionHash: string;
+    public readonly transactionIndex: number;
+    public readonly blockHash: string;
+    public readonly blockNumber: bigint;
+    public readonly from: string;
+    public readonly to: string | null;
+    public readonly gasUsed: bigint;
+    public readonly cumulativeGasUsed: bigint;
+    public readonly effectiveGasPrice: bigint;
+    public readonly contractAddress: string | null;
+    public readonly logs: Log[];
+    public readonly logsBloom: string;
+
+    constructor(receiptData: ReceiptData) {
+        this.type = receiptData.type;
+        this.status = receiptData.status;
+        this.transactionHash = receiptData.transactionHash;
+        this.transactionIndex = receiptData.transactionIndex;
+        this.blockHash = receiptData.blockHash;
+        this.blockNumber = receiptData.blockNumber;
+        this.from = receiptData.from;
+        this.to = receiptData.to;
+        this.gasUsed = receiptData.gasUsed;
+        this.cumulativeGasUsed = receiptData.cumulativeGasUsed;
+        this.effectiveGasPrice = receiptData.effectiveGasPrice;
+        this.contractAddress = receiptData.contractAddress;
+        this.logs = receiptData.logs;
+        this.logsBloom = receiptData.logsBloom;
+    }
+
+    /**
+     * Consensus encoding: rlp([status, cumulativeGasUsed, logsBloom, logs]), type-prefixed for
+     * typed transactions. Block context is not part of the commitment.
+     */
+    public encode(): Buffer {
+        const encoded = encodeRlp([
+            bigIntToBuffer(BigInt(this.status)),
+            bigIntToBuffer(this.cumulativeGasUsed),
+            hexToBuffer(this.logsBloom),
+            this.logs.map(log => [
+                hexToBuffer(log.address),
+                log.topics.map(topic => hexToBuffer(topic)),
+                hexToBuffer(log.data)
+            ])
+        ]);
+
+        if (this.type === 0) {
+            return encoded;
+        }
+        return Buffer.concat([Buffer.from([this.type]), encoded]);
+    }
+
+    /**
+     * Hash of the consensus encoding
+     */
+    public getHash(): string {
+        return bufferToHex(keccak256(this.encode()));
+    }
+
+    /**
+     * Serialize receipt to JSON
+     */
+    public toJSON(): any {
+        return {
+            type: this.type,
+            status: this.status,
+            transactionHash: this.transactionHash,
+            transactionIndex: this.transactionIndex,
+            blockHash: this.blockHash,
+            blockNumber: this.blockNumber.toString(),
+            from: this.from,
+            to: this.to,
+            gasUsed: this.gasUsed.toString(),
+            cumulativeGasUsed: this.cumulativeGasUsed.toString(),
+            effectiveGasPrice: this.effectiveGasPrice.toString(),
+            contractAddress: this.contractAddress,
+            logs: this.logs.map(log => ({
+                ...log,
+                blockNumber: log.blockNumber.toString()
+            })),
+            logsBloom: this.logsBloom
+        };
+    }
+
+    /**
+     * Create a receipt from JSON data
+     */
+    public static fromJSON(data: any): TransactionReceipt {
+        return new TransactionReceipt({
+            type: data.type,
+            status: data.status,
+            transactionHash: data.transactionHash,
+            transactionIndex: data.transactionIndex,
+            blockHash: data.blockHash,
+            blockNumber: BigInt(data.blockNumber),
+            from: data.from,
+            to: data.to,
+            gasUsed: BigInt(data.gasUsed),
+            cumulativeGasUsed: BigInt(data.cumulativeGasUsed),
+            effectiveGasPrice: BigInt(data.effectiveGasPrice),
+            contractAddress: data.contractAddress,
+            logs: data.logs.map((log: any) => ({
+                ...log,
+                blockNumber: BigInt(log.blockNumber)
+            })),
+            logsBloom: data.logsBloom
+        });
+    }
+}
@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { logger } from '../../utils/logger';
+import { Transaction } from './Transaction';
+
+/**
+ * Append-only on-disk journal of pooled transactions, one raw signed transaction per line,
+ * so the pool can be rebuilt after a restart
+ */
+export class TxJournal {
+    private readonly path: string;
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(path: string) {
+        this.path = path;
+    }
+
+    /**
+     * Read all journaled transactions. Corrupt lines (e.g. a write cut short by a crash)
+     * are skipped.
+     */
+    public async load(): Promise<Transaction[]> {
+        let contents: string;
+        try {
+            contents = await fs.readFile(this.path, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        const transactions: Transaction[] = [];
+        let corrupt = 0;
+        for (const line of contents.split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                transactions.push(Transaction.fromRaw(line.trim()));
+            } catch (error) {
+                corrupt++;
+            }
+        }
+
+        if (corrupt > 0) {
+            logger.warn('Skipped corrupt transaction journal entries', {
+                path: this.path,
+                corrupt
+            });
+        }
+
+        return transactions;
+    }
+
+    /**
+     * Append a transaction to the journal. Write failures are logged, never thrown.
+     */
+    public insert(transaction: Transaction): Promise<void> {
+        return this.enqueue(async () => {
+            await fs.mkdir(dirname(this.path), { recursive: true });
+            await fs.appendFile(this.path, transaction.serialize() + '\n');
+        });
+    }
+
+    /**
+     * Replace the journal with the given transactions. Written to a temporary file and
+     * renamed, so a crash mid-rotation leaves the previous journal intact.
+     */
+    public rotate(transactions: Transaction[]): Promise<void> {
+        return this.enqueue(async () => {
+            const temp = `${this.path}.new`;
+            const contents = transactions.map(tx => tx.serialize() + '\n').join('');
+
+            await fs.mkdir(dirname(this.path), { recursive: true });
+            await fs.writeFile(temp, contents);
+            await fs.rename(temp, this.path);
+        });
+    }
+
+    /**
+     * Wait for outstanding writes to finish
+     */
+    public flush(): Promise<void> {
+        return this.writes;
+    }
+
+    /**
+     * Run journal writes one at a time, in submission order
+     */
+    private enqueue(write: () => Promise<void>): Promise<void> {
+        this.writes = this.writes.then(write).catch(error => {
+            logger.error('Transaction journal write failed:', error);
+        });
+        return this.writes;
+    }
+}
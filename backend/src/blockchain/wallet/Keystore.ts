@@ -0,0 +1,150 @@
+import { keccak256 } from '@ethereum/util';
+import {
+    createCipheriv,
+    createDecipheriv,
+    pbkdf2,
+    randomBytes,
+    scrypt,
+    timingSafeEqual
+} from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Web3 Secret Storage Definition, version 3
+ */
+export interface KeystoreV3 {
+    version: 3;
+    id: string;
+    address: string;
+    crypto: {
+        cipher: 'aes-128-ctr';
+        ciphertext: string;
+        cipherparams: { iv: string };
+        kdf: 'scrypt' | 'pbkdf2';
+        kdfparams: ScryptParams | Pbkdf2Params;
+        mac: string;
+    };
+}
+
+export interface ScryptParams {
+    dklen: number;
+    n: number;
+    r: number;
+    p: number;
+    salt: string;
+}
+
+export interface Pbkdf2Params {
+    dklen: number;
+    c: number;
+    prf: 'hmac-sha256';
+    salt: string;
+}
+
+export interface EncryptOptions {
+    n?: number;
+    r?: number;
+    p?: number;
+}
+
+/**
+ * Decrypt a v3 keystore, returning the private key
+ */
+export async function decryptKeystore(
+    keystore: KeystoreV3 | string,
+    password: string
+): Promise<Buffer> {
+    const json = typeof keystore === 'string' ? JSON.parse(keystore) : keystore;
+
+    if (json.version !== 3) {
+        throw new Error(`Unsupported keystore version: ${json.version}`);
+    }
+
+    // Some tools write "Crypto" instead of "crypto"
+    const params = json.crypto || json.Crypto;
+    if (!params || params.cipher !== 'aes-128-ctr') {
+        throw new Error('Unsupported keystore cipher');
+    }
+
+    const derivedKey = await deriveKey(password, params.kdf, params.kdfparams);
+    const ciphertext = Buffer.from(params.ciphertext, 'hex');
+
+    const mac = keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext]));
+    const expectedMac = Buffer.from(params.mac, 'hex');
+    if (mac.length !== expectedMac.length || !timingSafeEqual(mac, expectedMac)) {
+        throw new Error('Invalid keystore password');
+    }
+
+    const decipher = createDecipheriv(
+        'aes-128-ctr',
+        derivedKey.subarray(0, 16),
+        Buffer.from(params.cipherparams.iv, 'hex')
+    );
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Encrypt a private key into a v3 keystore using scrypt
+ */
+export async function encryptKeystore(
+    privateKey: Buffer,
+    address: string,
+    password: string,
+    options: EncryptOptions = {}
+): Promise<KeystoreV3> {
+    const kdfparams: ScryptParams = {
+        dklen: 32,
+        n: options.n ?? 262144,
+        r: options.r ?? 8,
+        p: options.p ?? 1,
+        salt: randomBytes(32).toString('hex')
+    };
+    const iv = randomBytes(16);
+
+    const derivedKey = await deriveKey(password, 'scrypt', kdfparams);
+    const cipher = createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+    const ciphertext = Buffer.concat([cipher.update(privateKey), cipher.final()]);
+    const mac = keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext]));
+
+    return {
+        version: 3,
+        id: uuidv4(),
+        address: address.toLowerCase().replace(/^0x/, ''),
+        crypto: {
+            cipher: 'aes-128-ctr',
+            ciphertext: ciphertext.toString('hex'),
+            cipherparams: { iv: iv.toString('hex') },
+            kdf: 'scrypt',
+            kdfparams,
+            mac: Buffer.from(mac).toString('hex')
+        }
+    };
+}
+
+async function deriveKey(password: string, kdf: string, params: any): Promise<Buffer> {
+    const salt = Buffer.from(params.salt, 'hex');
+
+    if (kdf === 'scrypt') {
+        return new Promise((resolve, reject) => {
+            scrypt(
+                password,
+                salt,
+                params.dklen,
+                { N: params.n, r: params.r, p: params.p, maxmem: 256 * params.n * params.r },
+                (error, key) => (error ? reject(error) : resolve(key))
+            );
+        });
+    }
+
+    if (kdf === 'pbkdf2') {
+        if (params.prf !== 'hmac-sha256') {
+            throw new Error(`Unsupported keystore PRF: ${params.prf}`);
+        }
+        return new Promise((resolve, reject) => {
+            pbkdf2(password, salt, params.c, params.dklen, 'sha256',
+                (error, key) => (error ? reject(error) : resolve(key)));
+        });
+    }
+
+    throw new Error(`Unsupported keystore KDF: ${kdf}`);
+}
@@ -0,0 +1,97 @@
+import { ecrecover, publicToAddress } from '@ethereum/util';
+import { Transaction, TransactionData } from '../core/Transaction';
+
+export type UnsignedTransactionData = Omit<TransactionData, 'v' | 'r' | 's'>;
+
+export interface SignatureParts {
+    recovery: bigint; // 0 or 1
+    r: string;
+    s: string;
+}
+
+// secp256k1 curve order, used to bound signature values
+const SECP256K1_N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+
+/**
+ * Encode a signature as 65 bytes: r || s || recovery id
+ */
+export function joinSignature({ recovery, r, s }: SignatureParts): string {
+    return '0x' +
+        BigInt(r).toString(16).padStart(64, '0') +
+        BigInt(s).toString(16).padStart(64, '0') +
+        recovery.toString(16).padStart(2, '0');
+}
+
+/**
+ * Address that produced a 65-byte signature over a digest, or null if the signature is
+ * malformed. High-s signatures are rejected so a signature cannot be altered and stay valid.
+ */
+export function recoverAddress(digest: Buffer, signature: string): string | null {
+    const hex = signature.startsWith('0x') ? signature.slice(2) : signature;
+    if (!/^[0-9a-fA-F]{130}$/.test(hex)) {
+        return null;
+    }
+
+    const r = BigInt('0x' + hex.slice(0, 64));
+    const s = BigInt('0x' + hex.slice(64, 128));
+    const recovery = BigInt('0x' + hex.slice(128));
+    if (r === 0n || r >= SECP256K1_N || s === 0n || s > SECP256K1_N / 2n || recovery > 1n) {
+        return null;
+    }
+
+    try {
+        const publicKey = ecrecover(
+            digest,
+            Number(27n + recovery),
+            Buffer.from(hex.slice(0, 64), 'hex'),
+            Buffer.from(hex.slice(64, 128), 'hex')
+        );
+        return '0x' + Buffer.from(publicToAddress(publicKey)).toString('hex');
+    } catch (error) {
+        return null;
+    }
+}
+
+/**
+ * Anything that can produce secp256k1 signatures for an address
+ */
+export abstract class Signer {
+    /**
+     * Address whose key produces this signer's signatures
+     */
+    public abstract getAddress(): string;
+
+    /**
+     * Sign a 32-byte digest
+     */
+    public abstract signDigest(digest: Buffer): SignatureParts;
+
+    /**
+     * Sign a transaction, producing EIP-155 v values for legacy transactions
+     * and y-parity for typed ones
+     */
+    public signTransaction(txData: UnsignedTransactionData): Transaction {
+        const type = txData.type ?? 0;
+        const chainId = txData.chainId ?? Transaction.CHAIN_ID;
+        const legacyV = chainId * 2n + 35n;
+
+        // A placeholder signature carries the chain ID into the signing hash
+        const unsigned = new Transaction({
+            ...txData,
+            chainId,
+            v: type === 0 ? legacyV : 0n,
+            r: '0x0',
+            s: '0x0'
+        });
+
+        const { recovery, r, s } = this.signDigest(unsigned.getSigningHash());
+
+        return new Transaction({
+            ...txData,
+            chainId,
+            v: type === 0 ? legacyV + recovery : recovery,
+            r,
+            s
+        });
+    }
+}
@@ -0,0 +1,130 @@
+import { ecsign, isValidPrivate, privateToAddress } from '@ethereum/util';
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { createInterface } from 'readline';
+import { hexToBuffer } from '../../utils/rlp';
+import { decryptKeystore, EncryptOptions, encryptKeystore, KeystoreV3 } from './Keystore';
+import { SignatureParts, Signer } from './Signer';
+
+export interface UnlockOptions {
+    password?: string;
+    passwordEnv?: string;
+    prompt?: boolean;
+}
+
+/**
+ * Signer backed by a private key held in memory
+ */
+export class Wallet extends Signer {
+    private readonly privateKey: Buffer;
+    private readonly address: string;
+
+    constructor(privateKey: string | Buffer) {
+        super();
+        this.privateKey = typeof privateKey === 'string' ? hexToBuffer(privateKey) : privateKey;
+
+        if (this.privateKey.length !== 32 || !isValidPrivate(this.privateKey)) {
+            throw new Error('Invalid private key');
+        }
+
+        this.address = '0x' + Buffer.from(privateToAddress(this.privateKey)).toString('hex');
+    }
+
+    public getAddress(): string {
+        return this.address;
+    }
+
+    public signDigest(digest: Buffer): SignatureParts {
+        const { v, r, s } = ecsign(digest, this.privateKey);
+
+        return {
+            recovery: BigInt(Number(v) - 27),
+            r: '0x' + Buffer.from(r).toString('hex').padStart(64, '0'),
+            s: '0x' + Buffer.from(s).toString('hex').padStart(64, '0')
+        };
+    }
+
+    /**
+     * Encrypt this wallet's key into a v3 keystore
+     */
+    public async toKeystore(password: string, options: EncryptOptions = {}): Promise<KeystoreV3> {
+        return encryptKeystore(this.privateKey, this.address, password, options);
+    }
+
+    /**
+     * Create a wallet with a freshly generated key
+     */
+    public static createRandom(): Wallet {
+        let privateKey = randomBytes(32);
+        while (!isValidPrivate(privateKey)) {
+            privateKey = randomBytes(32);
+        }
+        return new Wallet(privateKey);
+    }
+
+    /**
+     * Decrypt a v3 keystore into a wallet
+     */
+    public static async fromKeystore(
+        keystore: KeystoreV3 | string,
+        password: string
+    ): Promise<Wallet> {
+        const wallet = new Wallet(await decryptKeystore(keystore, password));
+
+        const json = typeof keystore === 'string' ? JSON.parse(keystore) : keystore;
+        const address = json.address ? '0x' + json.address.toLowerCase().replace(/^0x/, '') : null;
+        if (address && address !== wallet.getAddress()) {
+            throw new Error('Keystore address does not match decrypted key');
+        }
+
+        return wallet;
+    }
+
+    /**
+     * Load and unlock a keystore file. The password is taken from the options, then the
+     * given environment variable (KEYSTORE_PASSWORD by default), then an interactive prompt.
+     * An empty environment variable counts as unset.
+     */
+    public static async fromKeystoreFile(
+        path: string,
+        options: UnlockOptions = {}
+    ): Promise<Wallet> {
+        const keystore = await fs.readFile(path, 'utf8');
+        const password = options.password
+            ?? (process.env[options.passwordEnv || 'KEYSTORE_PASSWORD'] || undefined)
+            ?? (options.prompt !== false ? await Wallet.promptPassword(path) : undefined);
+
+        if (password === undefined) {
+            throw new Error(`No password available to unlock keystore ${path}`);
+        }
+
+        return Wallet.fromKeystore(keystore, password);
+    }
+
+    private static async promptPassword(path: string): Promise<string | undefined> {
+        if (!process.stdin.isTTY) {
+            return undefined;
+        }
+
+        const rl = createInterface({
+            input: process.stdin,
+            output: process.stdout,
+            terminal: true
+        });
+
+        // Keep the typed password off the terminal
+        const output = rl as unknown as { _writeToOutput: (text: string) => void };
+        const question = `Password for keystore ${path}: `;
+        output._writeToOutput = (text: string) => {
+            process.stdout.write(text.startsWith(question) ? question : '');
+        };
+
+        return new Promise(resolve => {
+            rl.question(question, answer => {
+                rl.close();
+                process.stdout.write('\n');
+                resolve(answer);
+            });
+        });
+    }
+}
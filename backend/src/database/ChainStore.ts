@@ -0,0 +1,42 @@
+import { ConsensusRound } from '../blockchain/consensus/PoSAConsensus';
+import { Block } from '../blockchain/core/Block';
+import { StateSnapshot } from '../blockchain/core/StateManager';
+import { TransactionReceipt } from '../blockchain/core/TransactionReceipt';
+
+export interface StoredBlock {
+    block: Block;
+    receipts: TransactionReceipt[];
+}
+
+/**
+ * Persistent storage behind Chain and PoSAConsensus. A block, its receipts and the state
+ * after it are written together, so a store always holds a consistent chain up to its head.
+ */
+export interface ChainStore {
+    /**
+     * Blocks with their receipts from genesis to the head, in order; empty for a new store
+     */
+    loadBlocks(): Promise<StoredBlock[]>;
+
+    /**
+     * State after the head block, or null for a new store
+     */
+    loadState(): Promise<StateSnapshot | null>;
+
+    /**
+     * Append a block as the new head together with its receipts and post-state
+     */
+    saveBlock(block: Block, receipts: TransactionReceipt[], state: StateSnapshot): Promise<void>;
+
+    /**
+     * Rewrite the validator signatures and finality certificate of a stored block
+     */
+    updateBlock(block: Block): Promise<void>;
+
+    saveConsensusRound(round: ConsensusRound): Promise<void>;
+
+    /**
+     * Most recent finalized consensus rounds, oldest first
+     */
+    loadConsensusHistory(limit: number): Promise<ConsensusRound[]>;
+}
@@ -0,0 +1,71 @@
+import { FinalityCertificate } from '../blockchain/consensus/FinalityCertificate';
+import { ConsensusRound } from '../blockchain/consensus/PoSAConsensus';
+import { Block } from '../blockchain/core/Block';
+import { StateSnapshot } from '../blockchain/core/StateManager';
+import { TransactionReceipt } from '../blockchain/core/TransactionReceipt';
+import { ChainStore, StoredBlock } from './ChainStore';
+
+/**
+ * Process-local store, the default when no database is configured. Blocks, receipts and
+ * rounds are kept in serialized form so a reload yields fresh objects, as from a database.
+ */
+export class MemoryChainStore implements ChainStore {
+    private blocks: Array<{ block: any; receipts: any[] }> = [];
+    private state: StateSnapshot | null = null;
+    private rounds: any[] = [];
+
+    public async loadBlocks(): Promise<StoredBlock[]> {
+        return this.blocks.map(entry => ({
+            block: Block.fromJSON(entry.block),
+            receipts: entry.receipts.map(receipt => TransactionReceipt.fromJSON(receipt))
+        }));
+    }
+
+    public async loadState(): Promise<StateSnapshot | null> {
+        return this.state;
+    }
+
+    public async saveBlock(
+        block: Block,
+        receipts: TransactionReceipt[],
+        state: StateSnapshot
+    ): Promise<void> {
+        if (Number(block.header.number) !== this.blocks.length) {
+            throw new Error(
+                `Block ${block.header.number} does not extend the stored chain of ` +
+                `${this.blocks.length} blocks`
+            );
+        }
+
+        this.blocks.push({
+            block: block.toJSON(),
+            receipts: receipts.map(receipt => receipt.toJSON())
+        });
+        this.state = state;
+    }
+
+    public async updateBlock(block: Block): Promise<void> {
+        const entry = this.blocks[Number(block.header.number)];
+        if (!entry || entry.block.hash !== block.hash) {
+            throw new Error(`Block ${block.hash} is not stored`);
+        }
+        entry.block = block.toJSON();
+    }
+
+    public async saveConsensusRound(round: ConsensusRound): Promise<void> {
+        const { certificate, ...rest } = round;
+        this.rounds.push({
+            ...rest,
+            votes: round.votes.map(vote => ({ ...vote })),
+            certificate: certificate ? certificate.toJSON() : null
+        });
+    }
+
+    public async loadConsensusHistory(limit: number): Promise<ConsensusRound[]> {
+        return this.rounds.slice(-limit).map(({ certificate, ...round }) => ({
+            ...round,
+            votes: round.votes.map((vote: any) => ({ ...vote })),
+            ...(certificate ? { certificate: FinalityCertificate.fromJSON(certificate) } : {})
+        }));
+    }
+}
@@ -0,0 +1,299 @@
+import { PoolClient } from 'pg';
+import { FinalityCertificate } from '../blockchain/consensus/FinalityCertificate';
+import { ConsensusRound } from '../blockchain/consensus/PoSAConsensus';
+import { Block } from '../blockchain/core/Block';
+import { AccountState, ContractRecord, StateSnapshot } from '../blockchain/core/StateManager';
+import { TransactionReceipt } from '../blockchain/core/TransactionReceipt';
+import { ChainStore, StoredBlock } from './ChainStore';
+import { Database } from './connection';
+
+/**
+ * ChainStore over the PostgreSQL schema of migration 001_chain_storage. Structured data
+ * (headers, transactions, receipts, votes) is kept as JSONB in the same serialization the
+ * API uses; lookup fields are broken out into indexed columns.
+ */
+export class PostgresChainStore implements ChainStore {
+    private readonly database: Database;
+    private written: StateSnapshot | null = null; // last persisted state; only changes are written
+
+    constructor(database: Database) {
+        this.database = database;
+    }
+
+    public async loadBlocks(): Promise<StoredBlock[]> {
+        const blockRows = await this.database.query(
+            `SELECT number, hash, header, ommers, validator_signatures, certificate
+             FROM blocks ORDER BY number`
+        );
+        const transactionRows = await this.database.query(
+            'SELECT block_number, data FROM transactions ORDER BY block_number, transaction_index'
+        );
+        const receiptRows = await this.database.query(
+            'SELECT block_number, data FROM receipts ORDER BY block_number, transaction_index'
+        );
+
+        const transactions = groupByBlock(transactionRows);
+        const receipts = groupByBlock(receiptRows);
+
+        return blockRows.map(row => {
+            const block = Block.fromJSON({
+                header: row.header,
+                transactions: transactions.get(row.number) || [],
+                ommers: row.ommers,
+                validatorSignatures: row.validator_signatures,
+                certificate: row.certificate
+            });
+            if (block.hash !== row.hash) {
+                throw new Error(`Stored block ${row.number} does not hash to ${row.hash}`);
+            }
+
+            return {
+                block,
+                receipts: (receipts.get(row.number) || [])
+                    .map(receipt => TransactionReceipt.fromJSON(receipt))
+            };
+        });
+    }
+
+    public async loadState(): Promise<StateSnapshot | null> {
+        const [head] = await this.database.query('SELECT state_root FROM chain_state');
+        if (!head) {
+            return null;
+        }
+
+        const accounts = new Map<string, AccountState>();
+        for (const row of await this.database.query('SELECT * FROM accounts')) {
+            accounts.set(row.address, {
+                balance: BigInt(row.balance),
+                nonce: BigInt(row.nonce),
+                ...(row.code_hash !== null ? { codeHash: row.code_hash } : {}),
+                ...(row.storage_root !== null ? { storageRoot: row.storage_root } : {})
+            });
+        }
+
+        const contracts = new Map<string, ContractRecord>();
+        for (const row of await this.database.query('SELECT * FROM contracts')) {
+            contracts.set(row.address, {
+                address: row.address,
+                deployer: row.deployer,
+                code: row.code,
+                codeHash: row.code_hash,
+                salt: row.salt,
+                transactionHash: row.transaction_hash
+            });
+        }
+
+        this.written = {
+            accounts,
+            contracts,
+            stateRoot: head.state_root,
+            timestamp: Date.now()
+        };
+        return this.written;
+    }
+
+    public async saveBlock(
+        block: Block,
+        receipts: TransactionReceipt[],
+        state: StateSnapshot
+    ): Promise<void> {
+        const json = block.toJSON();
+
+        await this.database.transaction(async client => {
+            await client.query(
+                `INSERT INTO blocks (number, hash, parent_hash, beneficiary, timestamp, header,
+                                     ommers, validator_signatures, certificate)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+                [
+                    json.header.number,
+                    block.hash,
+                    block.header.parentHash,
+                    block.header.beneficiary,
+                    json.header.timestamp,
+                    JSON.stringify(json.header),
+                    JSON.stringify(json.ommers),
+                    JSON.stringify(json.validatorSignatures),
+                    json.certificate ? JSON.stringify(json.certificate) : null
+                ]
+            );
+
+            if (block.transactions.length > 0) {
+                await client.query(
+                    `INSERT INTO transactions (hash, block_number, transaction_index, from_address,
+                                               to_address, nonce, data)
+                     SELECT * FROM unnest($1::text[], $2::bigint[], $3::int[], $4::text[],
+                                          $5::text[], $6::numeric[], $7::jsonb[])`,
+                    [
+                        block.transactions.map(tx => tx.hash),
+                        block.transactions.map(() => json.header.number),
+                        block.transactions.map((_, index) => index),
+                        block.transactions.map(tx => tx.from),
+                        block.transactions.map(tx => tx.to),
+                        block.transactions.map(tx => tx.nonce.toString()),
+                        json.transactions.map((tx: any) => JSON.stringify(tx))
+                    ]
+                );
+            }
+
+            if (receipts.length > 0) {
+                await client.query(
+                    `INSERT INTO receipts (transaction_hash, block_number, transaction_index,
+                                           status, contract_address, data)
+                     SELECT * FROM unnest($1::text[], $2::bigint[], $3::int[], $4::smallint[],
+                                          $5::text[], $6::jsonb[])`,
+                    [
+                        receipts.map(receipt => receipt.transactionHash),
+                        receipts.map(() => json.header.number),
+                        receipts.map(receipt => receipt.transactionIndex),
+                        receipts.map(receipt => receipt.status),
+                        receipts.map(receipt => receipt.contractAddress),
+                        receipts.map(receipt => JSON.stringify(receipt.toJSON()))
+                    ]
+                );
+            }
+
+            await this.writeState(client, state, json.header.number);
+        });
+
+        this.written = state;
+    }
+
+    public async updateBlock(block: Block): Promise<void> {
+        const json = block.toJSON();
+        const rows = await this.database.query(
+            `UPDATE blocks SET validator_signatures = $2, certificate = $3
+             WHERE hash = $1 RETURNING number`,
+            [
+                block.hash,
+                JSON.stringify(json.validatorSignatures),
+                json.certificate ? JSON.stringify(json.certificate) : null
+            ]
+        );
+        if (rows.length === 0) {
+            throw new Error(`Block ${block.hash} is not stored`);
+        }
+    }
+
+    public async saveConsensusRound(round: ConsensusRound): Promise<void> {
+        await this.database.query(
+            `INSERT INTO consensus_rounds (block_hash, proposer, status, start_time, finalized_at,
+                                           votes, certificate)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+            [
+                round.blockHash,
+                round.proposer,
+                round.status,
+                round.startTime,
+                round.finalizedAt ?? null,
+                JSON.stringify(round.votes),
+                round.certificate ? JSON.stringify(round.certificate.toJSON()) : null
+            ]
+        );
+    }
+
+    public async loadConsensusHistory(limit: number): Promise<ConsensusRound[]> {
+        const rows = await this.database.query(
+            'SELECT * FROM consensus_rounds ORDER BY id DESC LIMIT $1',
+            [limit]
+        );
+
+        return rows.reverse().map(row => ({
+            blockHash: row.block_hash,
+            proposer: row.proposer,
+            startTime: Number(row.start_time),
+            votes: row.votes,
+            status: row.status,
+            ...(row.finalized_at !== null ? { finalizedAt: Number(row.finalized_at) } : {}),
+            ...(row.certificate !== null
+                ? { certificate: FinalityCertificate.fromJSON(row.certificate) }
+                : {})
+        }));
+    }
+
+    /**
+     * Upsert accounts and contracts that differ from the last persisted state and move the
+     * state marker to the block
+     */
+    private async writeState(
+        client: PoolClient,
+        state: StateSnapshot,
+        blockNumber: string
+    ): Promise<void> {
+        const previous = this.written;
+
+        const accounts = Array.from(state.accounts).filter(([address, account]) => {
+            const before = previous?.accounts.get(address);
+            return !before ||
+                before.balance !== account.balance ||
+                before.nonce !== account.nonce ||
+                before.codeHash !== account.codeHash ||
+                before.storageRoot !== account.storageRoot;
+        });
+        if (accounts.length > 0) {
+            await client.query(
+                `INSERT INTO accounts (address, balance, nonce, code_hash, storage_root)
+                 SELECT * FROM unnest($1::text[], $2::numeric[], $3::numeric[], $4::text[],
+                                      $5::text[])
+                 ON CONFLICT (address) DO UPDATE SET
+                     balance = EXCLUDED.balance,
+                     nonce = EXCLUDED.nonce,
+                     code_hash = EXCLUDED.code_hash,
+                     storage_root = EXCLUDED.storage_root`,
+                [
+                    accounts.map(([address]) => address),
+                    accounts.map(([, account]) => account.balance.toString()),
+                    accounts.map(([, account]) => account.nonce.toString()),
+                    accounts.map(([, account]) => account.codeHash ?? null),
+                    accounts.map(([, account]) => account.storageRoot ?? null)
+                ]
+            );
+        }
+
+        const removed = previous
+            ? Array.from(previous.accounts.keys()).filter(address => !state.accounts.has(address))
+            : [];
+        if (removed.length > 0) {
+            await client.query('DELETE FROM accounts WHERE address = ANY($1::text[])', [removed]);
+        }
+
+        const contracts = Array.from(state.contracts)
+            .filter(([address]) => !previous?.contracts.has(address));
+        if (contracts.length > 0) {
+            await client.query(
+                `INSERT INTO contracts (address, deployer, code, code_hash, salt, transaction_hash)
+                 SELECT * FROM unnest($1::text[], $2::text[], $3::text[], $4::text[], $5::text[],
+                                      $6::text[])
+                 ON CONFLICT (address) DO NOTHING`,
+                [
+                    contracts.map(([address]) => address),
+                    contracts.map(([, contract]) => contract.deployer),
+                    contracts.map(([, contract]) => contract.code),
+                    contracts.map(([, contract]) => contract.codeHash),
+                    contracts.map(([, contract]) => contract.salt),
+                    contracts.map(([, contract]) => contract.transactionHash)
+                ]
+            );
+        }
+
+        await client.query(
+            `INSERT INTO chain_state (id, block_number, state_root) VALUES (TRUE, $1, $2)
+             ON CONFLICT (id) DO UPDATE SET
+                 block_number = EXCLUDED.block_number,
+                 state_root = EXCLUDED.state_root`,
+            [blockNumber, state.stateRoot]
+        );
+    }
+}
+
+/**
+ * JSONB data column of rows, grouped by their block_number column
+ */
+function groupByBlock(rows: any[]): Map<string, any[]> {
+    const groups = new Map<string, any[]>();
+    for (const row of rows) {
+        const group = groups.get(row.block_number) || [];
+        group.push(row.data);
+        groups.set(row.block_number, group);
+    }
+    return groups;
+}
@@ -0,0 +1,80 @@
+import { Pool, PoolClient, QueryResultRow } from 'pg';
+import { config } from '../utils/config';
+import { logger } from '../utils/logger';
+
+/**
+ * PostgreSQL connection pool configured from config.database
+ */
+export class Database {
+    private pool: Pool | null = null;
+
+    public async connect(): Promise<void> {
+        if (this.pool) {
+            return;
+        }
+
+        const pool = new Pool({
+            connectionString: config.database.url,
+            ssl: config.database.ssl ? { rejectUnauthorized: false } : false
+        });
+        pool.on('error', error => {
+            logger.error('Idle database client failed:', error);
+        });
+
+        // Fail at startup rather than on the first query
+        try {
+            await pool.query('SELECT 1');
+        } catch (error) {
+            await pool.end();
+            throw error;
+        }
+        this.pool = pool;
+    }
+
+    public async disconnect(): Promise<void> {
+        if (!this.pool) {
+            return;
+        }
+
+        const pool = this.pool;
+        this.pool = null;
+        await pool.end();
+    }
+
+    public isConnected(): boolean {
+        return this.pool !== null;
+    }
+
+    public async query<T extends QueryResultRow = any>(
+        text: string,
+        params: unknown[] = []
+    ): Promise<T[]> {
+        const result = await this.getPool().query<T>(text, params);
+        return result.rows;
+    }
+
+    /**
+     * Run work on a single client inside a transaction, rolling back if it throws
+     */
+    public async transaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+        const client = await this.getPool().connect();
+        try {
+            await client.query('BEGIN');
+            const result = await work(client);
+            await client.query('COMMIT');
+            return result;
+        } catch (error) {
+            await client.query('ROLLBACK').catch(() => undefined);
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    private getPool(): Pool {
+        if (!this.pool) {
+            throw new Error('Database is not connected');
+        }
+        return this.pool;
+    }
+}
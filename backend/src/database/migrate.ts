@@ -0,0 +1,88 @@
+import dotenv from 'dotenv';
+
+// Load environment variables before the config is read
+dotenv.config();
+
+import { logger } from '../utils/logger';
+import { Database } from './connection';
+import { migrations } from './migrations';
+
+const MIGRATIONS_TABLE = `
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+        id TEXT PRIMARY KEY,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )
+`;
+
+/**
+ * Apply pending migrations in order, each in its own transaction. Returns the ids applied.
+ */
+export async function migrate(database: Database): Promise<string[]> {
+    await database.query(MIGRATIONS_TABLE);
+    const rows = await database.query<{ id: string }>('SELECT id FROM schema_migrations');
+    const applied = new Set(rows.map(row => row.id));
+
+    const pending = migrations.filter(migration => !applied.has(migration.id));
+    for (const migration of pending) {
+        await database.transaction(async client => {
+            await client.query(migration.up);
+            await client.query('INSERT INTO schema_migrations (id) VALUES ($1)', [migration.id]);
+        });
+        logger.info('Applied migration', { id: migration.id });
+    }
+
+    return pending.map(migration => migration.id);
+}
+
+/**
+ * Revert the most recently applied migration. Returns its id, or null if none was applied.
+ */
+export async function rollback(database: Database): Promise<string | null> {
+    await database.query(MIGRATIONS_TABLE);
+    const [latest] = await database.query<{ id: string }>(
+        'SELECT id FROM schema_migrations ORDER BY id DESC LIMIT 1'
+    );
+    if (!latest) {
+        return null;
+    }
+
+    const migration = migrations.find(candidate => candidate.id === latest.id);
+    if (!migration) {
+        throw new Error(`Applied migration ${latest.id} is not known to this version`);
+    }
+
+    await database.transaction(async client => {
+        await client.query(migration.down);
+        await client.query('DELETE FROM schema_migrations WHERE id = $1', [migration.id]);
+    });
+    logger.info('Rolled back migration', { id: migration.id });
+
+    return migration.id;
+}
+
+// npm run migrate [-- --rollback]
+if (require.main === module) {
+    const database = new Database();
+
+    (async () => {
+        await database.connect();
+        try {
+            if (process.argv.includes('--rollback')) {
+                const id = await rollback(database);
+                if (!id) {
+                    logger.info('No migrations to roll back');
+                }
+            } else {
+                const applied = await migrate(database);
+                if (applied.length === 0) {
+                    logger.info('Database schema is up to date');
+                }
+            }
+        } finally {
+            await database.disconnect();
+        }
+    })().catch(error => {
+        logger.error('Migration failed:', error);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,90 @@
+import { Migration } from './index';
+
+/**
+ * Blocks, their transactions and receipts, the account state after the head block and the
+ * history of consensus rounds
+ */
+export const chainStorage: Migration = {
+    id: '001_chain_storage',
+    up: `
+        CREATE TABLE blocks (
+            number BIGINT PRIMARY KEY,
+            hash TEXT NOT NULL UNIQUE,
+            parent_hash TEXT NOT NULL,
+            beneficiary TEXT NOT NULL,
+            timestamp BIGINT NOT NULL,
+            header JSONB NOT NULL,
+            ommers JSONB NOT NULL DEFAULT '[]',
+            validator_signatures JSONB NOT NULL DEFAULT '[]',
+            certificate JSONB
+        );
+
+        CREATE TABLE transactions (
+            hash TEXT PRIMARY KEY,
+            block_number BIGINT NOT NULL REFERENCES blocks (number) ON DELETE CASCADE,
+            transaction_index INTEGER NOT NULL,
+            from_address TEXT NOT NULL,
+            to_address TEXT,
+            nonce NUMERIC(78, 0) NOT NULL,
+            data JSONB NOT NULL,
+            UNIQUE (block_number, transaction_index)
+        );
+        CREATE INDEX transactions_from_address_idx ON transactions (from_address);
+        CREATE INDEX transactions_to_address_idx ON transactions (to_address);
+
+        CREATE TABLE receipts (
+            transaction_hash TEXT PRIMARY KEY REFERENCES transactions (hash) ON DELETE CASCADE,
+            block_number BIGINT NOT NULL REFERENCES blocks (number) ON DELETE CASCADE,
+            transaction_index INTEGER NOT NULL,
+            status SMALLINT NOT NULL,
+            contract_address TEXT,
+            data JSONB NOT NULL
+        );
+
+        CREATE TABLE accounts (
+            address TEXT PRIMARY KEY,
+            balance NUMERIC(78, 0) NOT NULL,
+            nonce NUMERIC(78, 0) NOT NULL,
+            code_hash TEXT,
+            storage_root TEXT
+        );
+
+        CREATE TABLE contracts (
+            address TEXT PRIMARY KEY,
+            deployer TEXT NOT NULL,
+            code TEXT NOT NULL,
+            code_hash TEXT NOT NULL,
+            salt TEXT,
+            transaction_hash TEXT
+        );
+        CREATE INDEX contracts_deployer_idx ON contracts (deployer);
+
+        -- Single row: the block the accounts and contracts tables are the post-state of
+        CREATE TABLE chain_state (
+            id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+            block_number BIGINT NOT NULL REFERENCES blocks (number),
+            state_root TEXT NOT NULL
+        );
+
+        CREATE TABLE consensus_rounds (
+            id BIGSERIAL PRIMARY KEY,
+            block_hash TEXT NOT NULL,
+            proposer TEXT NOT NULL,
+            status TEXT NOT NULL,
+            start_time BIGINT NOT NULL,
+            finalized_at BIGINT,
+            votes JSONB NOT NULL,
+            certificate JSONB
+        );
+        CREATE INDEX consensus_rounds_block_hash_idx ON consensus_rounds (block_hash);
+    `,
+    down: `
+        DROP TABLE IF EXISTS consensus_rounds;
+        DROP TABLE IF EXISTS chain_state;
+        DROP TABLE IF EXISTS contracts;
+        DROP TABLE IF EXISTS accounts;
+        DROP TABLE IF EXISTS receipts;
+        DROP TABLE IF EXISTS transactions;
+        DROP TABLE IF EXISTS blocks;
+    `
+};
@@ -0,0 +1,11 @@
+import { chainStorage } from './001_chain_storage';
+
+export interface Migration {
+    id: string; // applied in id order and recorded in schema_migrations
+    up: string;
+    down: string;
+}
+
+export const migrations: Migration[] = [
+    chainStorage
+];
@@ -12,10 +12,18 @@ dotenv.config();
 import { RestServer } from './api/rest/server';
 import { JsonRpcServer } from './api/rpc/JsonRpcServer';
 import { WSServer } from './api/websocket/WSServer';
+import { ConsensusRound, PoSAConsensus } from './blockchain/consensus/PoSAConsensus';
+import { Block } from './blockchain/core/Block';
 import { Chain } from './blockchain/core/Chain';
+import { Wallet } from './blockchain/wallet/Wallet';
+import { ChainStore } from './database/ChainStore';
 import { Database } from './database/connection';
+import { migrate } from './database/migrate';
+import { PostgresChainStore } from './database/PostgresChainStore';
 import { config } from './utils/config';
 import { logger } from './utils/logger';
+import { AIScreeningPolicy } from './validators/core/AIScreeningPolicy';
+import { BaseValidator } from './validators/core/BaseValidator';
 import { ValidatorManager } from './validators/core/ValidatorManager';
 
 class AgentChainNode {
@@ -23,7 +31,9 @@ class AgentChainNode {
     private server: any;
     private chain: Chain;
     private validatorManager: ValidatorManager;
+    private consensus: PoSAConsensus | null = null;
     private database: Database;
+    private wallet: Wallet | null = null;
     private restServer: RestServer;
     private rpcServer: JsonRpcServer;
     private wsServer: WSServer;
@@ -61,18 +71,56 @@ class AgentChainNode {
             // Initialize database connection
             this.database = new Database();
             await this.database.connect();
+            await migrate(this.database);
             logger.info('Database connected successfully');
 
-            // Initialize blockchain
-            this.chain = new Chain();
-            await this.chain.initialize();
-            logger.info('Blockchain initialized');
+            // Unlock the node wallet used for node-originated transactions
+            if (config.wallet.keystorePath) {
+                this.wallet = await Wallet.fromKeystoreFile(config.wallet.keystorePath);
+                logger.info('Node wallet unlocked', { address: this.wallet.getAddress() });
+            }
 
             // Initialize validator manager
             this.validatorManager = new ValidatorManager();
             await this.validatorManager.initialize();
             logger.info('Validator manager initialized');
 
+            // Initialize blockchain, restoring it from the database
+            const store = new PostgresChainStore(this.database);
+            this.chain = new Chain({
+                store,
+                ...(this.wallet ? { signer: this.wallet } : {}),
+                ...(config.blockchain.sealers.length > 0
+                    ? { validators: config.blockchain.sealers }
+                    : {})
+            });
+
+            // Have AI validators screen selected transactions before they become pending. The
+            // policy is installed before the journal is replayed so restored transactions are
+            // screened again.
+            if (config.screening.enabled) {
+                const screeners = config.screening.validators
+                    .map(id => this.validatorManager.getValidator(id.trim()))
+                    .filter((validator): validator is BaseValidator => validator !== null);
+
+                this.chain.setAdmissionPolicy(new AIScreeningPolicy(screeners, {
+                    valueThreshold: BigInt(config.screening.valueThreshold),
+                    contractCreation: config.screening.contractCreation,
+                    unknownRecipients: config.screening.unknownRecipients,
+                    timeout: config.screening.timeout
+                }));
+                logger.info('Transaction screening enabled', {
+                    validators: screeners.map(validator => validator.id)
+                });
+            }
+
+            await this.chain.initialize();
+            logger.info('Blockchain initialized');
+
+            if (config.validators.consensus.enabled) {
+                await this.startConsensus(store);
+            }
+
             // Initialize API servers
             this.restServer = new RestServer(this.chain, this.validatorManager);
             this.rpcServer = new JsonRpcServer(this.chain);
@@ -101,6 +149,40 @@ class AgentChainNode {
         }
     }
 
+    /**
+     * Run a validator round on every new block; the round history is kept in the chain's
+     * store and the vote reasoning is committed by a later block
+     */
+    private async startConsensus(store: ChainStore): Promise<void> {
+        const { required } = config.validators.consensus;
+        const active = this.validatorManager.getActiveValidators().length;
+        if (active < required) {
+            logger.warn('Consensus enabled but too few validators are active; not starting it', {
+                active,
+                required
+            });
+            return;
+        }
+
+        this.consensus = new PoSAConsensus(this.validatorManager, {
+            validatorCount: active,
+            requiredVotes: required,
+            roundTimeout: config.validators.consensus.timeout,
+            blockTime: config.blockchain.blockTime
+        }, store);
+        await this.consensus.initialize();
+
+        this.chain.on('blockAdded', (block: Block) => {
+            this.consensus?.proposeBlock(block, block.header.beneficiary).catch(error => {
+                logger.error('Failed to start consensus round:', error);
+            });
+        });
+        this.consensus.on('consensusReached', ({ round }: { round: ConsensusRound }) => {
+            this.chain.addConsensusVotes(round.votes);
+        });
+        logger.info('Consensus initialized', { validators: active, requiredVotes: required });
+    }
+
     public async start(): Promise<void> {
         try {
             const port = config.server.port;
@@ -142,10 +224,13 @@ class AgentChainNode {
             logger.info(`Received ${signal}, shutting down gracefully...`);
 
             try {
-                // Stop block production
-                await this.chain.stopBlockProduction();
+                // Stop block production and persist the transaction pool
+                await this.chain.close();
 
-                // Stop validators
+                // End any open consensus round, then stop validators
+                if (this.consensus) {
+                    await this.consensus.stop();
+                }
                 await this.validatorManager.stop();
 
                 // Close WebSocket server
@@ -180,9 +265,17 @@ class AgentChainNode {
         return this.chain;
     }
 
+    public getConsensus(): PoSAConsensus | null {
+        return this.consensus;
+    }
+
     public getValidatorManager(): ValidatorManager {
         return this.validatorManager;
     }
+
+    public getWallet(): Wallet | null {
+        return this.wallet;
+    }
 }
 
 // Error handling for unhandled promises and exceptions
@@ -0,0 +1,29 @@
+import { keccak256 } from '@ethereum/util';
+import { bigIntToBuffer, encodeRlp, hexToBuffer } from './rlp';
+
+/**
+ * Address of a contract deployed by a transaction or CREATE: keccak256(rlp([sender, nonce]))[12:]
+ */
+export function getCreateAddress(sender: string, nonce: bigint): string {
+    const hash = keccak256(encodeRlp([hexToBuffer(sender), bigIntToBuffer(nonce)]));
+    return '0x' + Buffer.from(hash).subarray(12).toString('hex');
+}
+
+/**
+ * Address of a contract deployed by CREATE2 (EIP-1014):
+ * keccak256(0xff ++ sender ++ salt ++ keccak256(initCode))[12:]
+ */
+export function getCreate2Address(sender: string, salt: string, initCode: string): string {
+    const saltBytes = hexToBuffer(salt);
+    if (saltBytes.length !== 32) {
+        throw new Error('CREATE2 salt must be 32 bytes');
+    }
+
+    const hash = keccak256(Buffer.concat([
+        Buffer.from([0xff]),
+        hexToBuffer(sender),
+        saltBytes,
+        keccak256(hexToBuffer(initCode))
+    ]));
+    return '0x' + Buffer.from(hash).subarray(12).toString('hex');
+}
@@ -0,0 +1,75 @@
+import { keccak256 } from '@ethereum/util';
+import { bufferToHex, hexToBuffer } from './rlp';
+
+/**
+ * 2048-bit Ethereum log bloom filter. Each entry sets three bits taken from the low 11 bits
+ * of the first three byte pairs of its keccak256 hash.
+ */
+export class Bloom {
+    public static readonly BYTES = 256;
+
+    private readonly bits: Buffer;
+
+    constructor(bits?: Buffer) {
+        if (bits && bits.length !== Bloom.BYTES) {
+            throw new Error(`Bloom must be ${Bloom.BYTES} bytes`);
+        }
+        this.bits = bits ? Buffer.from(bits) : Buffer.alloc(Bloom.BYTES);
+    }
+
+    /**
+     * Bloom over the address and topics of each log
+     */
+    public static fromLogs(logs: Array<{ address: string; topics: string[] }>): Bloom {
+        const bloom = new Bloom();
+        for (const log of logs) {
+            bloom.add(hexToBuffer(log.address));
+            for (const topic of log.topics) {
+                bloom.add(hexToBuffer(topic));
+            }
+        }
+        return bloom;
+    }
+
+    public static fromHex(hex: string): Bloom {
+        return new Bloom(hexToBuffer(hex));
+    }
+
+    public add(value: Buffer): void {
+        for (const [index, mask] of Bloom.positions(value)) {
+            this.bits[index]! |= mask;
+        }
+    }
+
+    /**
+     * False means the value was never added; true may be a false positive
+     */
+    public has(value: Buffer): boolean {
+        return Bloom.positions(value).every(([index, mask]) => (this.bits[index]! & mask) !== 0);
+    }
+
+    /**
+     * Merge another bloom into this one
+     */
+    public or(other: Bloom): this {
+        for (let i = 0; i < Bloom.BYTES; i++) {
+            this.bits[i]! |= other.bits[i]!;
+        }
+        return this;
+    }
+
+    public toHex(): string {
+        return bufferToHex(this.bits);
+    }
+
+    private static positions(value: Buffer): Array<[number, number]> {
+        const hash = keccak256(value);
+        const positions: Array<[number, number]> = [];
+
+        for (let i = 0; i < 6; i += 2) {
+            const bit = ((hash[i]! << 8) | hash[i + 1]!) & 2047;
+            positions.push([Bloom.BYTES - 1 - (bit >> 3), 1 << (bit & 7)]);
+        }
+        return positions;
+    }
+}
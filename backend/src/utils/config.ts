@@ -24,11 +24,22 @@ export interface BlockchainConfig {
     gasLimit: number;
     baseFee: number;
     difficulty: number;
+    sealers: Array<{ id: string; address: string }>; // authorized sealers; empty: this node
+}
+
+export interface ValidatorRegistration {
+    id: string;
+    address: string;
+    blsPublicKey: string;
+    blsProofOfPossession: string; // checked before the key may sign finality certificates
 }
 
 export interface ValidatorConfig {
     count: number;
+    blsKeys: { [id: string]: string }; // BLS secret keys of the validators this node runs
+    registry: ValidatorRegistration[]; // registered keys votes are verified against
     consensus: {
+        enabled: boolean; // run a validator round on every new block
         required: number;
         timeout: number;
     };
@@ -48,11 +59,35 @@ export interface ValidatorConfig {
     };
 }
 
+export interface TxPoolConfig {
+    priceBump: number; // minimum % increase of both fee cap and tip to replace a transaction
+    lifetime: number; // ms before a pooled transaction expires
+    journal: string; // path of the pool journal replayed on restart; empty disables it
+    rejournal: number; // ms between journal rotations
+    privateBlocks: number; // blocks a private transaction may wait for inclusion
+}
+
+export interface ScreeningConfig {
+    enabled: boolean; // AI pre-screening of selected transactions before they become pending
+    validators: string[]; // validator ids asked for a verdict
+    valueThreshold: string; // wei; transfers of at least this value are screened
+    contractCreation: boolean;
+    unknownRecipients: boolean;
+    timeout: number; // ms per validator
+}
+
+export interface WalletConfig {
+    keystorePath: string; // node wallet; password from KEYSTORE_PASSWORD or a prompt
+}
+
 export interface Config {
     server: ServerConfig;
     database: DatabaseConfig;
     blockchain: BlockchainConfig;
     validators: ValidatorConfig;
+    txpool: TxPoolConfig;
+    screening: ScreeningConfig;
+    wallet: WalletConfig;
     environment: string;
 }
 
@@ -80,11 +115,15 @@ const defaultConfig: Config = {
         blockTime: 10000, // 10 seconds
         gasLimit: 100000000,
         baseFee: 1000000000, // 1 gwei
-        difficulty: 1000000
+        difficulty: 1000000,
+        sealers: []
     },
     validators: {
         count: 6,
+        blsKeys: {},
+        registry: [],
         consensus: {
+            enabled: false,
             required: 4,
             timeout: 30000 // 30 seconds
         },
@@ -103,6 +142,24 @@ const defaultConfig: Config = {
             }
         }
     },
+    txpool: {
+        priceBump: 10,
+        lifetime: 10800000, // 3 hours
+        journal: './data/txpool.journal',
+        rejournal: 3600000, // 1 hour
+        privateBlocks: 25
+    },
+    screening: {
+        enabled: false,
+        validators: ['CLAUDE'],
+        valueThreshold: '100000000000000000000000', // 100,000 AGENTCHAIN
+        contractCreation: true,
+        unknownRecipients: false,
+        timeout: 30000
+    },
+    wallet: {
+        keystorePath: ''
+    },
     environment: 'development'
 };
 
@@ -111,40 +168,98 @@ function loadConfig(): Config {
     const config = { ...defaultConfig };
 
     // Server config
-    if (process.env.PORT) {
-        config.server.port = parseInt(process.env.PORT);
+    if (process.env['PORT']) {
+        config.server.port = parseInt(process.env['PORT']);
     }
-    if (process.env.HOST) {
-        config.server.host = process.env.HOST;
+    if (process.env['HOST']) {
+        config.server.host = process.env['HOST'];
     }
 
     // Database config
-    if (process.env.DATABASE_URL) {
-        config.database.url = process.env.DATABASE_URL;
+    if (process.env['DATABASE_URL']) {
+        config.database.url = process.env['DATABASE_URL'];
     }
 
     // Blockchain config
-    if (process.env.CHAIN_ID) {
-        config.blockchain.chainId = parseInt(process.env.CHAIN_ID);
+    if (process.env['CHAIN_ID']) {
+        config.blockchain.chainId = parseInt(process.env['CHAIN_ID']);
+    }
+    if (process.env['BLOCK_TIME']) {
+        config.blockchain.blockTime = parseInt(process.env['BLOCK_TIME']);
     }
-    if (process.env.BLOCK_TIME) {
-        config.blockchain.blockTime = parseInt(process.env.BLOCK_TIME);
+    if (process.env['CHAIN_SEALERS']) {
+        config.blockchain.sealers = process.env['CHAIN_SEALERS'].split(',').map(entry => {
+            const [id = '', address = ''] = entry.trim().split(':');
+            return { id, address };
+        });
     }
 
     // Validator config
-    if (process.env.ANTHROPIC_API_KEY) {
-        config.validators.aiProviders.anthropic.apiKey = process.env.ANTHROPIC_API_KEY;
+    if (process.env['ANTHROPIC_API_KEY']) {
+        config.validators.aiProviders.anthropic.apiKey = process.env['ANTHROPIC_API_KEY'];
     }
-    if (process.env.OPENAI_API_KEY) {
-        config.validators.aiProviders.openai.apiKey = process.env.OPENAI_API_KEY;
+    if (process.env['OPENAI_API_KEY']) {
+        config.validators.aiProviders.openai.apiKey = process.env['OPENAI_API_KEY'];
     }
-    if (process.env.XAI_API_KEY) {
-        config.validators.aiProviders.xai.apiKey = process.env.XAI_API_KEY;
+    if (process.env['XAI_API_KEY']) {
+        config.validators.aiProviders.xai.apiKey = process.env['XAI_API_KEY'];
+    }
+    if (process.env['CONSENSUS_ENABLED']) {
+        config.validators.consensus.enabled = process.env['CONSENSUS_ENABLED'] === 'true';
+    }
+    if (process.env['VALIDATOR_BLS_KEYS']) {
+        for (const entry of process.env['VALIDATOR_BLS_KEYS'].split(',')) {
+            const [id = '', secretKey = ''] = entry.trim().split(':');
+            config.validators.blsKeys[id] = secretKey;
+        }
+    }
+    if (process.env['VALIDATOR_REGISTRY']) {
+        config.validators.registry = process.env['VALIDATOR_REGISTRY'].split(',').map(entry => {
+            const [id = '', address = '', blsPublicKey = '', blsProofOfPossession = ''] =
+                entry.trim().split(':');
+            return { id, address, blsPublicKey, blsProofOfPossession };
+        });
+    }
+
+    // Transaction pool config
+    if (process.env['TXPOOL_PRICE_BUMP']) {
+        config.txpool.priceBump = parseInt(process.env['TXPOOL_PRICE_BUMP']);
+    }
+    if (process.env['TXPOOL_LIFETIME']) {
+        config.txpool.lifetime = parseInt(process.env['TXPOOL_LIFETIME']);
+    }
+    if (process.env['TXPOOL_JOURNAL'] !== undefined) {
+        config.txpool.journal = process.env['TXPOOL_JOURNAL'];
+    }
+    if (process.env['TXPOOL_REJOURNAL']) {
+        config.txpool.rejournal = parseInt(process.env['TXPOOL_REJOURNAL']);
+    }
+    if (process.env['TXPOOL_PRIVATE_BLOCKS']) {
+        config.txpool.privateBlocks = parseInt(process.env['TXPOOL_PRIVATE_BLOCKS']);
+    }
+
+    // Screening config
+    if (process.env['SCREENING_ENABLED']) {
+        config.screening.enabled = process.env['SCREENING_ENABLED'] === 'true';
+    }
+    if (process.env['SCREENING_VALIDATORS']) {
+        config.screening.validators = process.env['SCREENING_VALIDATORS'].split(',');
+    }
+    if (process.env['SCREENING_VALUE_THRESHOLD']) {
+        config.screening.valueThreshold = process.env['SCREENING_VALUE_THRESHOLD'];
+    }
+    if (process.env['SCREENING_UNKNOWN_RECIPIENTS']) {
+        config.screening.unknownRecipients = process.env['SCREENING_UNKNOWN_RECIPIENTS'] === 'true';
+    }
+
+    // Wallet config
+    if (process.env['KEYSTORE_PATH']) {
+        config.wallet.keystorePath = process.env['KEYSTORE_PATH'];
     }
 
     // Environment
-    if (process.env.NODE_ENV) {
-        config.environment = process.env.NODE_ENV;
+    if (process.env['NODE_ENV']) {
+        config.environment = process.env['NODE_ENV'];
     }
 
     return config;
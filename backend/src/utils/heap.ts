@@ -0,0 +1,115 @@
+/**
+ * Binary heap with keyed removal. `before(a, b)` is true when a belongs nearer the top.
+ * push, pop and remove are O(log n); has and peek are O(1).
+ */
+export class IndexedHeap<T> {
+    private items: T[] = [];
+    private positions: Map<string, number> = new Map();
+
+    constructor(
+        private readonly keyOf: (item: T) => string,
+        private readonly before: (a: T, b: T) => boolean
+    ) { }
+
+    public get size(): number {
+        return this.items.length;
+    }
+
+    public has(key: string): boolean {
+        return this.positions.has(key);
+    }
+
+    public peek(): T | undefined {
+        return this.items[0];
+    }
+
+    public push(item: T): void {
+        const key = this.keyOf(item);
+        if (this.positions.has(key)) {
+            return;
+        }
+
+        this.items.push(item);
+        this.positions.set(key, this.items.length - 1);
+        this.siftUp(this.items.length - 1);
+    }
+
+    public pop(): T | undefined {
+        const top = this.items[0];
+        if (top !== undefined) {
+            this.removeAt(0);
+        }
+        return top;
+    }
+
+    public remove(key: string): boolean {
+        const index = this.positions.get(key);
+        if (index === undefined) {
+            return false;
+        }
+
+        this.removeAt(index);
+        return true;
+    }
+
+    public clear(): void {
+        this.items = [];
+        this.positions.clear();
+    }
+
+    private removeAt(index: number): void {
+        const last = this.items.length - 1;
+        this.swap(index, last);
+        this.positions.delete(this.keyOf(this.items.pop()!));
+
+        if (index < this.items.length) {
+            this.siftDown(index);
+            this.siftUp(index);
+        }
+    }
+
+    private siftUp(index: number): void {
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (!this.before(this.items[index]!, this.items[parent]!)) {
+                break;
+            }
+            this.swap(index, parent);
+            index = parent;
+        }
+    }
+
+    private siftDown(index: number): void {
+        for (;;) {
+            const left = 2 * index + 1;
+            const right = left + 1;
+            let top = index;
+
+            if (left < this.items.length && this.before(this.items[left]!, this.items[top]!)) {
+                top = left;
+            }
+            if (right < this.items.length && this.before(this.items[right]!, this.items[top]!)) {
+                top = right;
+            }
+            if (top === index) {
+                break;
+            }
+
+            this.swap(index, top);
+            index = top;
+        }
+    }
+
+    private swap(i: number, j: number): void {
+        if (i === j) {
+            return;
+        }
+
+        const a = this.items[i]!;
+        const b = this.items[j]!;
+        this.items[i] = b;
+        this.items[j] = a;
+        this.positions.set(this.keyOf(a), j);
+        this.positions.set(this.keyOf(b), i);
+    }
+}
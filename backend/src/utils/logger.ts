@@ -18,7 +18,7 @@ class Logger {
     private maxLogs = 1000;
 
     constructor() {
-        this.logLevel = (process.env.LOG_LEVEL as keyof LogLevel) || 'INFO';
+        this.logLevel = (process.env['LOG_LEVEL'] as keyof LogLevel) || 'INFO';
     }
 
     private shouldLog(level: keyof LogLevel): boolean {
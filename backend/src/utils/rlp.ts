@@ -0,0 +1,152 @@
+export type RlpInput = Buffer | RlpInput[];
+
+/**
+ * Encode a byte string or nested list using Recursive Length Prefix encoding
+ */
+export function encodeRlp(input: RlpInput): Buffer {
+    if (Array.isArray(input)) {
+        const payload = Buffer.concat(input.map(item => encodeRlp(item)));
+        return Buffer.concat([encodeLength(payload.length, 0xc0), payload]);
+    }
+
+    if (input.length === 1 && input[0]! < 0x80) {
+        return input;
+    }
+
+    return Buffer.concat([encodeLength(input.length, 0x80), input]);
+}
+
+/**
+ * Decode an RLP byte string, rejecting non-canonical encodings and trailing bytes
+ */
+export function decodeRlp(data: Buffer): RlpInput {
+    const [decoded, consumed] = decodeItem(data, 0);
+    if (consumed !== data.length) {
+        throw new Error('RLP input has trailing bytes');
+    }
+    return decoded;
+}
+
+function decodeItem(data: Buffer, offset: number): [RlpInput, number] {
+    const prefix = data[offset];
+    if (prefix === undefined) {
+        throw new Error('RLP input is truncated');
+    }
+
+    // Single byte
+    if (prefix < 0x80) {
+        return [data.subarray(offset, offset + 1), offset + 1];
+    }
+
+    // Short and long byte strings
+    if (prefix < 0xc0) {
+        const [start, length] = decodeLength(data, offset, prefix, 0x80);
+        const item = data.subarray(start, start + length);
+        if (length === 1 && item[0]! < 0x80) {
+            throw new Error('Non-canonical RLP single byte');
+        }
+        return [item, start + length];
+    }
+
+    // Lists
+    const [start, length] = decodeLength(data, offset, prefix, 0xc0);
+    const end = start + length;
+    const items: RlpInput[] = [];
+    let position = start;
+    while (position < end) {
+        const [item, next] = decodeItem(data.subarray(0, end), position);
+        items.push(item);
+        position = next;
+    }
+    return [items, end];
+}
+
+function decodeLength(
+    data: Buffer,
+    offset: number,
+    prefix: number,
+    base: number
+): [number, number] {
+    let start = offset + 1;
+    let length = prefix - base;
+
+    if (length > 55) {
+        const lengthOfLength = length - 55;
+        const lengthBytes = data.subarray(start, start + lengthOfLength);
+        if (lengthBytes.length !== lengthOfLength || lengthBytes[0] === 0) {
+            throw new Error('Invalid RLP length prefix');
+        }
+
+        length = Number(bufferToBigInt(lengthBytes));
+        if (length < 56) {
+            throw new Error('Non-canonical RLP length');
+        }
+        start += lengthOfLength;
+    }
+
+    if (start + length > data.length) {
+        throw new Error('RLP input is truncated');
+    }
+
+    return [start, length];
+}
+
+function encodeLength(length: number, offset: number): Buffer {
+    if (length < 56) {
+        return Buffer.from([offset + length]);
+    }
+
+    const lengthBytes = bigIntToBuffer(BigInt(length));
+    return Buffer.concat([Buffer.from([offset + 55 + lengthBytes.length]), lengthBytes]);
+}
+
+/**
+ * Convert a non-negative integer to its minimal big-endian representation (0 is empty)
+ */
+export function bigIntToBuffer(value: bigint): Buffer {
+    if (value < 0n) {
+        throw new Error('Cannot encode negative integer');
+    }
+
+    if (value === 0n) {
+        return Buffer.alloc(0);
+    }
+
+    const hex = value.toString(16);
+    return Buffer.from(hex.length % 2 === 0 ? hex : '0' + hex, 'hex');
+}
+
+/**
+ * Convert a big-endian byte string to an integer, rejecting leading zeros
+ */
+export function bufferToBigInt(buffer: Buffer): bigint {
+    if (buffer.length === 0) {
+        return 0n;
+    }
+
+    if (buffer[0] === 0) {
+        throw new Error('Integer has leading zero bytes');
+    }
+
+    return BigInt('0x' + buffer.toString('hex'));
+}
+
+/**
+ * Convert a 0x-prefixed hex string to bytes
+ */
+export function hexToBuffer(hex: string): Buffer {
+    const stripped = hex.startsWith('0x') ? hex.slice(2) : hex;
+
+    if (!/^[0-9a-fA-F]*$/.test(stripped) || stripped.length % 2 !== 0) {
+        throw new Error(`Invalid hex string: ${hex}`);
+    }
+
+    return Buffer.from(stripped, 'hex');
+}
+
+/**
+ * Convert bytes to a 0x-prefixed hex string
+ */
+export function bufferToHex(buffer: Buffer): string {
+    return '0x' + buffer.toString('hex');
+}
@@ -0,0 +1,283 @@
+import { keccak256 } from '@ethereum/util';
+import { bigIntToBuffer, bufferToHex, decodeRlp, encodeRlp, hexToBuffer, RlpInput } from './rlp';
+
+/**
+ * Root of the empty trie: keccak256(rlp(''))
+ */
+export const EMPTY_TRIE_ROOT =
+    '0x56e81f171bcc55a6ff8345e692c0f86e5b48e01b996cadc001622fb5e363b421';
+
+interface TrieEntry {
+    nibbles: number[];
+    value: Buffer;
+}
+
+/**
+ * Nodes of a Merkle-Patricia trie built in memory, keyed by the hash of their encoding.
+ * Nodes whose encoding is shorter than 32 bytes are embedded in their parent instead.
+ */
+export class MerklePatriciaTrie {
+    private readonly nodes: Map<string, Buffer> = new Map();
+    private readonly rootHash: string;
+
+    constructor(entries: Array<[Buffer, Buffer]>) {
+        if (entries.length === 0) {
+            this.rootHash = EMPTY_TRIE_ROOT;
+            return;
+        }
+
+        const sorted = entries
+            .map(([key, value]) => ({ nibbles: toNibbles(key), value }))
+            .sort((a, b) => compareNibbles(a.nibbles, b.nibbles));
+
+        for (let i = 1; i < sorted.length; i++) {
+            if (compareNibbles(sorted[i - 1]!.nibbles, sorted[i]!.nibbles) === 0) {
+                throw new Error('Duplicate trie key');
+            }
+        }
+
+        // The root is always referenced by hash, however short its encoding
+        const encoded = encodeRlp(this.buildNode(sorted, 0));
+        this.rootHash = bufferToHex(keccak256(encoded));
+        this.nodes.set(this.rootHash, encoded);
+    }
+
+    /**
+     * Trie over rlp(index) => value, as used for block transactions and receipts
+     */
+    public static fromList(values: Buffer[]): MerklePatriciaTrie {
+        return new MerklePatriciaTrie(values.map((value, index) => [indexKey(index), value]));
+    }
+
+    public getRoot(): string {
+        return this.rootHash;
+    }
+
+    /**
+     * Encoded nodes on the path from the root to the key, root first. The proof for a missing
+     * key shows where the path ends.
+     */
+    public getProof(key: Buffer): Buffer[] {
+        const proof: Buffer[] = [];
+        const nibbles = toNibbles(key);
+        let node: RlpInput | null = this.resolve(this.rootHash, proof);
+        let depth = 0;
+
+        while (node !== null && Array.isArray(node)) {
+            if (node.length === 17) {
+                if (depth === nibbles.length) {
+                    break;
+                }
+                node = this.child(node[nibbles[depth]!]!, proof);
+                depth++;
+                continue;
+            }
+
+            const [path, isLeaf] = decodeHexPrefix(node[0] as Buffer);
+            if (isLeaf || !startsWith(nibbles, path, depth)) {
+                break;
+            }
+            depth += path.length;
+            node = this.child(node[1]!, proof);
+        }
+
+        return proof;
+    }
+
+    private resolve(hash: string, proof: Buffer[]): RlpInput | null {
+        const encoded = this.nodes.get(hash);
+        if (!encoded) {
+            return null;
+        }
+        proof.push(encoded);
+        return decodeRlp(encoded);
+    }
+
+    private child(reference: RlpInput, proof: Buffer[]): RlpInput | null {
+        if (Array.isArray(reference)) {
+            return reference;
+        }
+        if (reference.length === 0) {
+            return null;
+        }
+        return this.resolve(bufferToHex(reference), proof);
+    }
+
+    private buildNode(entries: TrieEntry[], depth: number): RlpInput {
+        if (entries.length === 1) {
+            const entry = entries[0]!;
+            return [encodeHexPrefix(entry.nibbles.slice(depth), true), entry.value];
+        }
+
+        // Shared path below this depth becomes an extension node
+        const first = entries[0]!.nibbles;
+        const last = entries[entries.length - 1]!.nibbles;
+        let shared = 0;
+        while (depth + shared < first.length && depth + shared < last.length &&
+            first[depth + shared] === last[depth + shared]) {
+            shared++;
+        }
+        if (shared > 0) {
+            return [
+                encodeHexPrefix(first.slice(depth, depth + shared), false),
+                this.reference(this.buildNode(entries, depth + shared))
+            ];
+        }
+
+        // Branch on the next nibble; a key ending here stores its value in the 17th slot
+        const branch: RlpInput[] = [];
+        let value: Buffer = Buffer.alloc(0);
+        let index = 0;
+        if (entries[0]!.nibbles.length === depth) {
+            value = entries[0]!.value;
+            index = 1;
+        }
+
+        for (let nibble = 0; nibble < 16; nibble++) {
+            const group: TrieEntry[] = [];
+            while (index < entries.length && entries[index]!.nibbles[depth] === nibble) {
+                group.push(entries[index]!);
+                index++;
+            }
+            branch.push(group.length > 0
+                ? this.reference(this.buildNode(group, depth + 1))
+                : Buffer.alloc(0));
+        }
+        branch.push(value);
+
+        return branch;
+    }
+
+    private reference(node: RlpInput): RlpInput {
+        const encoded = encodeRlp(node);
+        if (encoded.length < 32) {
+            return node;
+        }
+
+        const hash = Buffer.from(keccak256(encoded));
+        this.nodes.set(bufferToHex(hash), encoded);
+        return hash;
+    }
+}
+
+/**
+ * Root of the trie over rlp(index) => value
+ */
+export function orderedTrieRoot(values: Buffer[]): string {
+    return MerklePatriciaTrie.fromList(values).getRoot();
+}
+
+/**
+ * Trie key of the item at a list index: rlp(index)
+ */
+export function indexKey(index: number): Buffer {
+    return encodeRlp(bigIntToBuffer(BigInt(index)));
+}
+
+/**
+ * Check a proof from getProof against a root. Returns the value stored under the key, or null
+ * if the proof shows the key is absent. Throws if the proof is incomplete or does not match
+ * the root.
+ */
+export function verifyTrieProof(root: string, key: Buffer, proof: Buffer[]): Buffer | null {
+    const nodes = new Map<string, Buffer>();
+    for (const encoded of proof) {
+        nodes.set(bufferToHex(keccak256(encoded)), encoded);
+    }
+
+    const load = (reference: RlpInput): RlpInput | null => {
+        if (Array.isArray(reference)) {
+            return reference;
+        }
+        if (reference.length === 0) {
+            return null;
+        }
+        const encoded = nodes.get(bufferToHex(reference));
+        if (!encoded) {
+            throw new Error(`Missing trie node ${bufferToHex(reference)} in proof`);
+        }
+        return decodeRlp(encoded);
+    };
+
+    const nibbles = toNibbles(key);
+    let node = load(hexToBuffer(root));
+    let depth = 0;
+
+    while (node !== null) {
+        if (!Array.isArray(node)) {
+            throw new Error('Invalid trie node in proof');
+        }
+
+        if (node.length === 17) {
+            if (depth === nibbles.length) {
+                const value = node[16] as Buffer;
+                return value.length > 0 ? value : null;
+            }
+            node = load(node[nibbles[depth]!]!);
+            depth++;
+            continue;
+        }
+
+        if (node.length !== 2) {
+            throw new Error('Invalid trie node in proof');
+        }
+
+        const [path, isLeaf] = decodeHexPrefix(node[0] as Buffer);
+        if (isLeaf) {
+            const matches = depth + path.length === nibbles.length &&
+                startsWith(nibbles, path, depth);
+            return matches ? node[1] as Buffer : null;
+        }
+        if (!startsWith(nibbles, path, depth)) {
+            return null;
+        }
+        depth += path.length;
+        node = load(node[1]!);
+    }
+
+    return null;
+}
+
+function toNibbles(key: Buffer): number[] {
+    const nibbles: number[] = [];
+    for (const byte of key) {
+        nibbles.push(byte >> 4, byte & 0x0f);
+    }
+    return nibbles;
+}
+
+function compareNibbles(a: number[], b: number[]): number {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        if (a[i] !== b[i]) {
+            return a[i]! - b[i]!;
+        }
+    }
+    return a.length - b.length;
+}
+
+function startsWith(nibbles: number[], path: number[], depth: number): boolean {
+    return path.every((nibble, i) => nibbles[depth + i] === nibble);
+}
+
+/**
+ * Compact (hex-prefix) path encoding; the flag nibble marks leaves and odd lengths
+ */
+function encodeHexPrefix(path: number[], isLeaf: boolean): Buffer {
+    const flag = (isLeaf ? 2 : 0) + (path.length % 2);
+    const nibbles = path.length % 2 === 1 ? [flag, ...path] : [flag, 0, ...path];
+
+    const bytes = Buffer.alloc(nibbles.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = (nibbles[2 * i]! << 4) | nibbles[2 * i + 1]!;
+    }
+    return bytes;
+}
+
+function decodeHexPrefix(encoded: Buffer): [number[], boolean] {
+    const nibbles = toNibbles(encoded);
+    const flag = nibbles[0] ?? 0;
+    if (flag > 3) {
+        throw new Error('Invalid hex-prefix path');
+    }
+    return [nibbles.slice(flag % 2 === 1 ? 1 : 2), flag >= 2];
+}
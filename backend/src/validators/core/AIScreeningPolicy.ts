@@ -0,0 +1,125 @@
+import {
+    AdmissionPolicy,
+    ScreeningResult,
+    ScreeningVerdict
+} from '../../blockchain/core/AdmissionPolicy';
+import { StateManager } from '../../blockchain/core/StateManager';
+import { Transaction } from '../../blockchain/core/Transaction';
+import { logger } from '../../utils/logger';
+import { BaseValidator } from './BaseValidator';
+
+export interface AIScreeningOptions {
+    valueThreshold?: bigint; // screen transfers of at least this many wei
+    contractCreation?: boolean; // screen contract deployments
+    unknownRecipients?: boolean; // screen transfers to addresses with no state
+    minConfidence?: number; // verdicts below this confidence count as abstentions
+    rejectQuorum?: number; // confident rejections needed to reject; default a majority
+    timeout?: number; // ms to wait for each validator
+}
+
+/**
+ * Admission policy that asks AI validators to review selected transactions before they become
+ * pending. A quorum of confident rejections rejects the transaction, a minority flags it, and
+ * no confident approval at all holds it for an operator.
+ */
+export class AIScreeningPolicy implements AdmissionPolicy {
+    private readonly validators: BaseValidator[];
+    private readonly valueThreshold: bigint | null;
+    private readonly contractCreation: boolean;
+    private readonly unknownRecipients: boolean;
+    private readonly minConfidence: number;
+    private readonly rejectQuorum: number;
+    private readonly timeout: number;
+
+    constructor(validators: BaseValidator[], options: AIScreeningOptions = {}) {
+        if (validators.length === 0) {
+            throw new Error('AI screening requires at least one validator');
+        }
+
+        this.validators = validators;
+        this.valueThreshold = options.valueThreshold ?? null;
+        this.contractCreation = options.contractCreation ?? true;
+        this.unknownRecipients = options.unknownRecipients ?? false;
+        this.minConfidence = options.minConfidence ?? 0.5;
+        this.rejectQuorum = options.rejectQuorum ?? Math.floor(validators.length / 2) + 1;
+        this.timeout = options.timeout ?? 30000;
+    }
+
+    public shouldScreen(transaction: Transaction, state: StateManager): boolean {
+        if (this.valueThreshold !== null && transaction.value >= this.valueThreshold) {
+            return true;
+        }
+
+        if (transaction.isContractCreation()) {
+            return this.contractCreation;
+        }
+
+        return this.unknownRecipients && state.getAccount(transaction.to!) === null;
+    }
+
+    public async screen(transaction: Transaction): Promise<ScreeningResult> {
+        const verdicts = await Promise.all(
+            this.validators.map(validator => this.ask(validator, transaction))
+        );
+
+        const confident = verdicts.filter(verdict => verdict.confidence >= this.minConfidence);
+        const rejections = confident.filter(verdict => verdict.action === 'reject').length;
+        const approvals = confident.filter(verdict => verdict.action === 'approve').length;
+
+        let outcome: ScreeningResult['outcome'] = 'accept';
+        if (rejections >= this.rejectQuorum) {
+            outcome = 'reject';
+        } else if (rejections > 0) {
+            outcome = 'flag';
+        } else if (approvals === 0) {
+            outcome = 'hold';
+        }
+
+        logger.info('Transaction screened', {
+            hash: transaction.hash,
+            outcome,
+            approvals,
+            rejections
+        });
+
+        return { outcome, verdicts, screenedAt: Date.now() };
+    }
+
+    /**
+     * Get one validator's verdict, abstaining if it fails or does not answer in time
+     */
+    private async ask(
+        validator: BaseValidator,
+        transaction: Transaction
+    ): Promise<ScreeningVerdict> {
+        let timer: NodeJS.Timeout | null = null;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error('timed out')), this.timeout);
+        });
+
+        try {
+            const decision = await Promise.race([
+                validator.validateTransaction(transaction),
+                timeout
+            ]);
+
+            return {
+                validator: validator.id,
+                action: decision.action,
+                reasoning: decision.reasoning,
+                confidence: decision.confidence
+            };
+        } catch (error) {
+            return {
+                validator: validator.id,
+                action: 'abstain',
+                reasoning: `No verdict: ${error instanceof Error ? error.message : String(error)}`,
+                confidence: 0
+            };
+        } finally {
+            if (timer) {
+                clearTimeout(timer);
+            }
+        }
+    }
+}
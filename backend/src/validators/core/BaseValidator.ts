@@ -1,6 +1,8 @@
 import { EventEmitter } from 'events';
+import { BlsKey } from '../../blockchain/consensus/FinalityCertificate';
 import { Block } from '../../blockchain/core/Block';
 import { Transaction } from '../../blockchain/core/Transaction';
+import { ValidatorVote } from './ValidatorManager';
 
 export interface ValidatorDecision {
     action: 'approve' | 'reject' | 'abstain';
@@ -27,13 +29,15 @@ export abstract class BaseValidator extends EventEmitter {
     protected isActive: boolean = false;
     protected metrics: ValidatorMetrics;
     protected lastActiveTime: number;
+    private readonly blsKey: BlsKey; // signs votes and block approvals
 
     constructor(
         id: string,
         name: string,
         personality: string,
         focus: string,
-        provider: string
+        provider: string,
+        blsKey: BlsKey
     ) {
         super();
         this.id = id;
@@ -41,6 +45,7 @@ export abstract class BaseValidator extends EventEmitter {
         this.personality = personality;
         this.focus = focus;
         this.provider = provider;
+        this.blsKey = blsKey;
         this.lastActiveTime = Date.now();
 
         this.metrics = {
@@ -67,6 +72,59 @@ export abstract class BaseValidator extends EventEmitter {
      */
     public abstract evaluateProposal(proposal: any): Promise<ValidatorDecision>;
 
+    /**
+     * BLS public key other nodes use to verify this validator's block approvals
+     */
+    public getBlsPublicKey(): string {
+        return this.blsKey.publicKey;
+    }
+
+    /**
+     * Proof that this validator holds the secret key for its BLS public key
+     */
+    public getBlsProofOfPossession(): string {
+        return this.blsKey.provePossession();
+    }
+
+    /**
+     * BLS signature over the block hash, aggregated into the block's finality certificate
+     */
+    public signBlock(block: Block): string {
+        return this.blsKey.sign(Buffer.from(block.hash, 'hex'));
+    }
+
+    /**
+     * Decide on a block and emit the vote. Every vote is signed over the block's attestation
+     * digest, which covers the reasoning; approvals also carry the BLS signature over the
+     * block hash that goes into the finality certificate. Abstentions are not emitted.
+     */
+    public async voteOnBlock(block: Block): Promise<void> {
+        const decision = await this.validateBlock(block);
+        if (decision.action === 'abstain') {
+            return;
+        }
+
+        const digest = block.getAttestationDigest(decision.reasoning, decision.timestamp);
+        const vote: ValidatorVote = {
+            blockHash: block.hash,
+            validator: this.id,
+            vote: decision.action,
+            reasoning: decision.reasoning,
+            timestamp: decision.timestamp,
+            signature: this.blsKey.sign(digest),
+            blsSignature: decision.action === 'approve' ? this.signBlock(block) : ''
+        };
+
+        this.emit('vote', vote);
+    }
+
+    /**
+     * Prepare the validator before it is started
+     */
+    public async initialize(): Promise<void> {
+        this.lastActiveTime = Date.now();
+    }
+
     /**
      * Start the validator
      */
@@ -97,7 +155,11 @@ export abstract class BaseValidator extends EventEmitter {
     /**
      * Update validator metrics
      */
-    public updateMetrics(decision: ValidatorDecision, wasCorrect: boolean, responseTime: number): void {
+    public updateMetrics(
+        _decision: ValidatorDecision,
+        wasCorrect: boolean,
+        responseTime: number
+    ): void {
         this.metrics.totalDecisions++;
         if (wasCorrect) {
             this.metrics.correctDecisions++;
@@ -1,5 +1,7 @@
 import { EventEmitter } from 'events';
+import { BlsKey } from '../../blockchain/consensus/FinalityCertificate';
 import { Block } from '../../blockchain/core/Block';
+import { config, ValidatorRegistration } from '../../utils/config';
 import { logger } from '../../utils/logger';
 import { ClaudeValidator } from '../personalities/Claude';
 import { BaseValidator } from './BaseValidator';
@@ -8,6 +10,7 @@ export interface ValidatorInfo {
     id: string;
     name: string;
     address: string;
+    blsPublicKey: string;
     personality: string;
     isActive: boolean;
     reputation: number;
@@ -22,7 +25,8 @@ export interface ValidatorVote {
     vote: 'approve' | 'reject';
     reasoning: string;
     timestamp: number;
-    signature: string;
+    signature: string; // BLS, over the block's attestation digest
+    blsSignature: string; // over the block hash, for the finality certificate; approvals only
 }
 
 export interface AIProposal {
@@ -37,6 +41,11 @@ export interface AIProposal {
     votingDeadline: number;
 }
 
+export interface ValidatorManagerOptions {
+    validators?: BaseValidator[]; // default: the built-in AI validators, keyed from config
+    registry?: ValidatorRegistration[]; // default: config.validators.registry
+}
+
 export class ValidatorManager extends EventEmitter {
     private validators: Map<string, BaseValidator> = new Map();
     private validatorInfos: Map<string, ValidatorInfo> = new Map();
@@ -44,30 +53,81 @@ export class ValidatorManager extends EventEmitter {
     private proposalHistory: AIProposal[] = [];
     private isRunning: boolean = false;
 
-    constructor() {
+    constructor(options: ValidatorManagerOptions = {}) {
         super();
-        this.initializeValidators();
+        this.initializeValidators(
+            options.validators ?? ValidatorManager.createValidators(),
+            options.registry ?? config.validators.registry
+        );
     }
 
-    private initializeValidators(): void {
-        // Initialize the six AI validators
-        const validators = [
-            new ClaudeValidator('claude', 'Claude', '0x1234567890123456789012345678901234567890'),
+    private static createValidators(): BaseValidator[] {
+        // The six AI validators; only those this node holds a BLS key for are created
+        const factories: Array<[string, (blsKey: BlsKey) => BaseValidator]> = [
+            ['CLAUDE', blsKey => new ClaudeValidator(blsKey)]
             // In a real implementation, we'd have all 6 validators
-            // new GPTValidator('gpt', 'GPT', '0x2345678901234567890123456789012345678901'),
-            // new GrokValidator('grok', 'Grok', '0x3456789012345678901234567890123456789012'),
-            // new StableValidator('stable', 'Stable', '0x4567890123456789012345678901234567890123'),
-            // new PerplexValidator('perplex', 'Perplex', '0x5678901234567890123456789012345678901234'),
-            // new CohereValidator('cohere', 'Cohere', '0x6789012345678901234567890123456789012345')
+            // ['GPT', blsKey => new GPTValidator(blsKey)],
+            // ['GROK', blsKey => new GrokValidator(blsKey)],
+            // ['STABLE', blsKey => new StableValidator(blsKey)],
+            // ['PERPLEX', blsKey => new PerplexValidator(blsKey)],
+            // ['COHERE', blsKey => new CohereValidator(blsKey)]
         ];
 
+        return factories.flatMap(([id, create]) => {
+            const blsKey = ValidatorManager.loadBlsKey(id);
+            return blsKey ? [create(blsKey)] : [];
+        });
+    }
+
+    /**
+     * BLS secret key configured for a validator this node runs, or null if there is none
+     */
+    private static loadBlsKey(id: string): BlsKey | null {
+        const secretKey = config.validators.blsKeys[id];
+        if (!secretKey) {
+            logger.warn('No BLS key configured for validator; not activating it', {
+                validator: id
+            });
+            return null;
+        }
+        return new BlsKey(secretKey);
+    }
+
+    /**
+     * Register each validator under its registered BLS public key. The key must match the
+     * validator's own and come with a valid proof of possession, since only such keys may be
+     * aggregated. A validator missing from the registry is not activated.
+     */
+    private initializeValidators(
+        validators: BaseValidator[],
+        registry: ValidatorRegistration[]
+    ): void {
         for (const validator of validators) {
+            const registration = registry.find(entry => entry.id === validator.id);
+            if (!registration) {
+                logger.warn('Validator is not registered; not activating it', {
+                    validator: validator.id
+                });
+                continue;
+            }
+
+            const publicKey = registration.blsPublicKey;
+            if (!BlsKey.verifyPossession(publicKey, registration.blsProofOfPossession)) {
+                throw new Error(`Validator ${validator.id} has an invalid BLS key`);
+            }
+            if (publicKey.toLowerCase() !== validator.getBlsPublicKey().toLowerCase()) {
+                throw new Error(
+                    `Validator ${validator.id} signs with a BLS key other than its registered one`
+                );
+            }
+
             this.validators.set(validator.id, validator);
 
             this.validatorInfos.set(validator.id, {
                 id: validator.id,
                 name: validator.name,
-                address: validator.address,
+                address: registration.address.toLowerCase(),
+                blsPublicKey: publicKey.toLowerCase(),
                 personality: validator.personality,
                 isActive: true,
                 reputation: 100, // Start with perfect reputation
@@ -204,7 +264,7 @@ export class ValidatorManager extends EventEmitter {
         for (const validator of this.validators.values()) {
             if (validator.id !== proposal.proposer) {
                 try {
-                    await validator.reviewProposal(proposal);
+                    await validator.evaluateProposal(proposal);
                 } catch (error) {
                     logger.error(`Failed to send proposal to validator ${validator.id}:`, error);
                 }
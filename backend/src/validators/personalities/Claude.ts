@@ -1,4 +1,5 @@
 import Anthropic from '@anthropic-ai/sdk';
+import { BlsKey } from '../../blockchain/consensus/FinalityCertificate';
 import { Block } from '../../blockchain/core/Block';
 import { Transaction } from '../../blockchain/core/Transaction';
 import { BaseValidator, ValidatorDecision } from '../core/BaseValidator';
@@ -6,17 +7,18 @@ import { BaseValidator, ValidatorDecision } from '../core/BaseValidator';
 export class ClaudeValidator extends BaseValidator {
     private anthropic: Anthropic;
 
-    constructor() {
+    constructor(blsKey: BlsKey) {
         super(
             'CLAUDE',
             'Claude',
             'Cautious and methodical, prioritizes security and ethical considerations',
             'Ethics and Alignment',
-            'Anthropic'
+            'Anthropic',
+            blsKey
         );
 
         this.anthropic = new Anthropic({
-            apiKey: process.env.ANTHROPIC_API_KEY,
+            apiKey: process.env['ANTHROPIC_API_KEY'],
         });
     }
 
@@ -39,7 +41,7 @@ export class ClaudeValidator extends BaseValidator {
                 }]
             });
 
-            const response = message.content[0]?.text || '';
+            const response = this.getResponseText(message);
             const decision = this.parseValidationResponse(response);
 
             const responseTime = Date.now() - startTime;
@@ -86,7 +88,7 @@ export class ClaudeValidator extends BaseValidator {
                 }]
             });
 
-            const response = message.content[0]?.text || '';
+            const response = this.getResponseText(message);
             const decision = this.parseValidationResponse(response);
 
             const responseTime = Date.now() - startTime;
@@ -132,7 +134,7 @@ export class ClaudeValidator extends BaseValidator {
                 }]
             });
 
-            const response = message.content[0]?.text || '';
+            const response = this.getResponseText(message);
             const decision = this.parseValidationResponse(response);
 
             const responseTime = Date.now() - startTime;
@@ -175,7 +177,7 @@ As Claude, the Ethics and Alignment validator for AgentChain, you must evaluate
 - Timestamp: ${new Date(Number(block.header.timestamp) * 1000).toISOString()}
 - Gas Used: ${block.header.gasUsed.toString()}/${block.header.gasLimit.toString()}
 - Transaction Count: ${block.transactions.length}
-- Validator Signatures: ${block.validatorSignatures.length}
+- Validator Signatures: ${block.getOwnSignatures().length}
 
 **Validation Criteria**:
 1. Block structure integrity
@@ -254,6 +256,14 @@ Focus on long-term stability and user protection.
     `.trim();
     }
 
+    /**
+     * Text of the first content block of a response
+     */
+    private getResponseText(message: Anthropic.Message): string {
+        const content = message.content[0];
+        return content?.type === 'text' ? content.text : '';
+    }
+
     /**
      * Parse Claude's response into a ValidatorDecision
      */
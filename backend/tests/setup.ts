@@ -0,0 +1,2 @@
+// Keep test output to failures; the logger reads LOG_LEVEL when first imported
+process.env['LOG_LEVEL'] = process.env['LOG_LEVEL'] || 'ERROR';
@@ -0,0 +1,232 @@
+import { Request, Response } from 'express';
+import { JsonRpcServer } from '../../../../src/api/rpc/JsonRpcServer';
+import { Chain } from '../../../../src/blockchain/core/Chain';
+import { LogFilter } from '../../../../src/blockchain/core/LogQuery';
+import { StateManager } from '../../../../src/blockchain/core/StateManager';
+import { Transaction } from '../../../../src/blockchain/core/Transaction';
+import { TransactionPool } from '../../../../src/blockchain/core/TransactionPool';
+import { Log } from '../../../../src/blockchain/core/TransactionReceipt';
+import { Wallet } from '../../../../src/blockchain/wallet/Wallet';
+
+const GWEI = 1000000000n;
+const recipient = '0x' + '22'.repeat(20);
+
+/**
+ * Post one JSON-RPC request through the server's middleware and return the response body
+ */
+const call = async (server: JsonRpcServer, method: string, params: unknown[] = []) => {
+    let body: any;
+    const res = {
+        json: (value: unknown) => {
+            body = value;
+            return res;
+        },
+        status: () => res,
+        end: () => res
+    };
+    const req = { method: 'POST', path: '/', body: { jsonrpc: '2.0', id: 1, method, params } };
+
+    await server.getMiddleware()(
+        req as unknown as Request,
+        res as unknown as Response,
+        () => undefined
+    );
+    return body;
+};
+
+interface Setup {
+    server: JsonRpcServer;
+    pool: TransactionPool;
+    wallet: Wallet;
+}
+
+const setup = async (): Promise<Setup> => {
+    const state = new StateManager();
+    const wallet = Wallet.createRandom();
+    await state.setBalance(wallet.getAddress(), 10n ** 21n);
+    const pool = new TransactionPool(state);
+
+    // Only the pool is needed to serve the txpool namespace
+    const chain = { getTransactionPool: () => pool } as unknown as Chain;
+    return { server: new JsonRpcServer(chain), pool, wallet };
+};
+
+describe('JsonRpcServer', () => {
+    it('reports unknown methods', async () => {
+        const { server } = await setup();
+
+        expect((await call(server, 'eth_mine')).error).toEqual({
+            code: -32601,
+            message: 'the method eth_mine does not exist/is not available'
+        });
+    });
+
+    describe('txpool namespace', () => {
+        const fill = async (pool: TransactionPool, wallet: Wallet): Promise<Transaction[]> => {
+            const transactions = [0n, 1n, 3n].map(nonce =>
+                Transaction.createTransfer(wallet, recipient, 5n, nonce, 2n * GWEI)
+            );
+            for (const tx of transactions) {
+                await pool.addTransaction(tx);
+            }
+            return transactions;
+        };
+
+        it('counts pending and queued transactions', async () => {
+            const { server, pool, wallet } = await setup();
+            await fill(pool, wallet);
+
+            expect((await call(server, 'txpool_status')).result)
+                .toEqual({ pending: '0x2', queued: '0x1' });
+        });
+
+        it('groups content by sender and nonce', async () => {
+            const { server, pool, wallet } = await setup();
+            const [first, second, gapped] = await fill(pool, wallet);
+            const sender = wallet.getAddress();
+
+            const { result } = await call(server, 'txpool_content');
+
+            expect(Object.keys(result.pending[sender])).toEqual(['0', '1']);
+            expect(result.pending[sender]['0']).toMatchObject({
+                hash: first!.hash,
+                blockHash: null,
+                from: sender,
+                nonce: '0x0',
+                gasPrice: '0x77359400',
+                value: '0x5'
+            });
+            expect(result.pending[sender]['1'].hash).toBe(second!.hash);
+            expect(result.queued[sender]['3'].hash).toBe(gapped!.hash);
+        });
+
+        it('lists the content of one sender', async () => {
+            const { server, pool, wallet } = await setup();
+            await fill(pool, wallet);
+
+            const { result } = await call(server, 'txpool_contentFrom', [wallet.getAddress()]);
+            const other = await call(server, 'txpool_contentFrom', [recipient]);
+
+            expect(Object.keys(result.pending)).toEqual(['0', '1']);
+            expect(Object.keys(result.queued)).toEqual(['3']);
+            expect(other.result).toEqual({ pending: {}, queued: {} });
+        });
+
+        it('rejects a malformed address', async () => {
+            const { server } = await setup();
+
+            expect((await call(server, 'txpool_contentFrom', ['0x1234'])).error).toEqual({
+                code: -32602,
+                message: 'invalid argument 0: expected an address'
+            });
+        });
+
+        it('summarizes transactions for inspection', async () => {
+            const { server, pool, wallet } = await setup();
+            await fill(pool, wallet);
+
+            const { result } = await call(server, 'txpool_inspect');
+
+            expect(result.pending[wallet.getAddress()]['0'])
+                .toBe(`${recipient}: 5 wei + 21000 gas × 2000000000 wei`);
+        });
+
+        it('leaves private transactions out', async () => {
+            const { server, pool, wallet } = await setup();
+            await pool.addPrivateTransaction(
+                Transaction.createTransfer(wallet, recipient, 5n, 0n),
+                10
+            );
+
+            expect((await call(server, 'txpool_status')).result)
+                .toEqual({ pending: '0x0', queued: '0x0' });
+            expect((await call(server, 'txpool_content')).result)
+                .toEqual({ pending: {}, queued: {} });
+        });
+    });
+
+    describe('eth_getLogs', () => {
+        const log: Log = {
+            address: '0x' + '33'.repeat(20),
+            topics: ['0x' + '01'.repeat(32)],
+            data: '0x1234',
+            blockNumber: 7n,
+            blockHash: 'ab'.repeat(32),
+            transactionHash: '0x' + 'cd'.repeat(32),
+            transactionIndex: 2,
+            logIndex: 5,
+            removed: false
+        };
+
+        // Chain serving a head of 9 that records the filters it is asked for
+        const createServer = (): { server: JsonRpcServer; filters: LogFilter[] } => {
+            const filters: LogFilter[] = [];
+            const chain = {
+                getHeight: () => 9,
+                getLogs: (filter: LogFilter) => {
+                    filters.push(filter);
+                    return [log];
+                }
+            } as unknown as Chain;
+            return { server: new JsonRpcServer(chain), filters };
+        };
+
+        it('formats matching logs as hex quantities', async () => {
+            const { server } = createServer();
+
+            expect((await call(server, 'eth_getLogs', [{}])).result).toEqual([{
+                address: log.address,
+                topics: log.topics,
+                data: '0x1234',
+                blockNumber: '0x7',
+                blockHash: '0x' + 'ab'.repeat(32),
+                transactionHash: log.transactionHash,
+                transactionIndex: '0x2',
+                logIndex: '0x5',
+                removed: false
+            }]);
+        });
+
+        it('resolves block tags and passes address and topics through', async () => {
+            const { server, filters } = createServer();
+            const topics = [null, ['0x' + '02'.repeat(32)]];
+
+            await call(server, 'eth_getLogs', [{
+                fromBlock: 'earliest',
+                toBlock: '0x5',
+                address: log.address,
+                topics
+            }]);
+            await call(server, 'eth_getLogs', [{ fromBlock: '0x2', toBlock: 'latest' }]);
+            await call(server, 'eth_getLogs', [{ blockHash: '0x' + 'ab'.repeat(32) }]);
+
+            expect(filters).toEqual([
+                { fromBlock: 0, toBlock: 5, address: log.address, topics },
+                { fromBlock: 2, toBlock: 9 },
+                { blockHash: '0x' + 'ab'.repeat(32) }
+            ]);
+        });
+
+        it('rejects a block hash combined with a range', async () => {
+            const { server, filters } = createServer();
+
+            const response = await call(server, 'eth_getLogs', [{
+                blockHash: '0x' + 'ab'.repeat(32),
+                fromBlock: '0x1'
+            }]);
+
+            expect(response.error.code).toBe(-32602);
+            expect(response.error.message).toContain('cannot specify both blockHash');
+            expect(filters).toEqual([]);
+        });
+
+        it('rejects an invalid block number', async () => {
+            const { server } = createServer();
+
+            expect((await call(server, 'eth_getLogs', [{ fromBlock: 'soon' }])).error).toEqual({
+                code: -32602,
+                message: 'invalid argument 0: invalid block number'
+            });
+        });
+    });
+});
@@ -0,0 +1,127 @@
+import { HeaderVerifier } from '../../../../src/blockchain/consensus/HeaderVerifier';
+import { Block, BlockHeader } from '../../../../src/blockchain/core/Block';
+
+const PERIOD = 1000;
+const NOW = 1700000000000;
+const sealers = ['a', 'b', 'c', 'd'].map(c => '0x' + c.repeat(40));
+const [a, b, c] = sealers;
+
+const parent: BlockHeader = {
+    ...Block.createGenesis().header,
+    number: 4n,
+    gasLimit: 10240000n,
+    timestamp: BigInt(NOW - 5000)
+};
+
+/**
+ * Valid child of the parent sealed by the in-turn sealer, with overrides
+ */
+const child = (overrides: Partial<BlockHeader> = {}): BlockHeader => ({
+    ...parent,
+    number: 5n,
+    timestamp: parent.timestamp + BigInt(PERIOD),
+    beneficiary: sealers[5 % sealers.length]!,
+    difficulty: HeaderVerifier.DIFFICULTY_IN_TURN,
+    ...overrides
+});
+
+const createVerifier = (validators: string[] = sealers): HeaderVerifier =>
+    new HeaderVerifier({ period: PERIOD, validators, maxFutureDrift: 15000 });
+
+describe('HeaderVerifier', () => {
+    const verifier = createVerifier();
+    const verify = (header: BlockHeader, recentSigners: string[] = []): void =>
+        verifier.verify(header, parent, recentSigners, NOW);
+
+    it('accepts a valid child', () => {
+        expect(() => verify(child())).not.toThrow();
+    });
+
+    it('requires the next block number', () => {
+        expect(() => verify(child({ number: 6n }))).toThrow('does not follow 4');
+    });
+
+    describe('timestamps', () => {
+        it('requires at least one period after the parent', () => {
+            expect(() => verify(child({ timestamp: parent.timestamp + BigInt(PERIOD) - 1n })))
+                .toThrow(`less than ${PERIOD}ms after parent`);
+            expect(verifier.getMinimumTimestamp(parent)).toBe(parent.timestamp + 1000n);
+        });
+
+        it('rejects timestamps too far in the future', () => {
+            expect(() => verify(child({ timestamp: BigInt(NOW + 15000) }))).not.toThrow();
+            expect(() => verify(child({ timestamp: BigInt(NOW + 15001) })))
+                .toThrow('too far in the future');
+        });
+    });
+
+    describe('gas limit', () => {
+        // The parent's 10240000 allows changes below 10000
+        it.each<[string, bigint]>([
+            ['rise', 10249999n],
+            ['fall', 10230001n]
+        ])('accepts a %s within the bound', (_, gasLimit) => {
+            expect(() => verify(child({ gasLimit }))).not.toThrow();
+        });
+
+        it.each<[string, bigint]>([
+            ['rise', 10250000n],
+            ['fall', 10230000n]
+        ])('rejects a %s at the bound', (_, gasLimit) => {
+            expect(() => verify(child({ gasLimit }))).toThrow('by more than 1/1024');
+        });
+
+        it('rejects a gas limit below the minimum', () => {
+            const small = { ...parent, gasLimit: 5000n };
+
+            expect(() => verifier.verify(child({ gasLimit: 4999n }), small, [], NOW))
+                .toThrow('gas limit 4999');
+        });
+    });
+
+    describe('difficulty', () => {
+        it('expects the in-turn difficulty from the scheduled sealer only', () => {
+            expect(verifier.calculateDifficulty(5n, b!)).toBe(HeaderVerifier.DIFFICULTY_IN_TURN);
+            expect(verifier.calculateDifficulty(5n, a!)).toBe(HeaderVerifier.DIFFICULTY_NO_TURN);
+            expect(() => verify(child({ difficulty: HeaderVerifier.DIFFICULTY_NO_TURN })))
+                .toThrow('should be 2 for an in-turn sealer');
+        });
+
+        it('accepts an out-of-turn sealer with the lower difficulty', () => {
+            expect(() => verify(child({
+                beneficiary: a!,
+                difficulty: HeaderVerifier.DIFFICULTY_NO_TURN
+            }))).not.toThrow();
+            expect(() => verify(child({ beneficiary: a!, difficulty: 2n })))
+                .toThrow('should be 1 for an out-of-turn sealer');
+        });
+    });
+
+    describe('recent signers', () => {
+        it('lets a sealer seal one of any floor(N/2)+1 consecutive blocks', () => {
+            // Four sealers: the sealers of the last two blocks must wait
+            expect(verifier.getRecentSignerWindow()).toBe(2);
+            expect(() => verify(child(), [c!, b!])).toThrow('sealed one of the last 2 blocks');
+            expect(() => verify(child(), [b!.toUpperCase(), c!]))
+                .toThrow('sealed one of the last 2 blocks');
+            expect(() => verify(child(), [c!, a!, b!])).not.toThrow();
+        });
+
+        it('scales the window with the sealer set', () => {
+            const three = createVerifier(sealers.slice(0, 3));
+            const header = child({ beneficiary: c! });
+
+            expect(three.getRecentSignerWindow()).toBe(1);
+            expect(() => three.verify(header, parent, [a!, c!], NOW)).not.toThrow();
+            expect(() => three.verify(header, parent, [c!], NOW)).toThrow('sealed one of the last');
+        });
+
+        it('lets a lone sealer seal every block', () => {
+            const single = createVerifier([b!]);
+            const header = child({ beneficiary: b! });
+
+            expect(single.getRecentSignerWindow()).toBe(0);
+            expect(() => single.verify(header, parent, [b!, b!], NOW)).not.toThrow();
+        });
+    });
+});
@@ -0,0 +1,180 @@
+import { BlsKey } from '../../../../src/blockchain/consensus/FinalityCertificate';
+import { ConsensusRound, PoSAConsensus } from '../../../../src/blockchain/consensus/PoSAConsensus';
+import { Block } from '../../../../src/blockchain/core/Block';
+import { Transaction } from '../../../../src/blockchain/core/Transaction';
+import { ValidatorRegistration } from '../../../../src/utils/config';
+import { BaseValidator, ValidatorDecision } from '../../../../src/validators/core/BaseValidator';
+import { ValidatorManager } from '../../../../src/validators/core/ValidatorManager';
+
+type Action = ValidatorDecision['action'];
+
+/**
+ * Validator with a fixed verdict on every block
+ */
+class FixedValidator extends BaseValidator {
+    constructor(id: string, blsKey: BlsKey, private readonly action: Action) {
+        super(id, id, 'fixed', 'testing', 'none', blsKey);
+    }
+
+    public async validateBlock(block: Block): Promise<ValidatorDecision> {
+        return this.decide(`${this.action} ${block.hash}`);
+    }
+
+    public async validateTransaction(transaction: Transaction): Promise<ValidatorDecision> {
+        return this.decide(`${this.action} ${transaction.hash}`);
+    }
+
+    public async evaluateProposal(): Promise<ValidatorDecision> {
+        return this.decide('no opinion');
+    }
+
+    private decide(reasoning: string): ValidatorDecision {
+        return { action: this.action, reasoning, confidence: 1, timestamp: Date.now() };
+    }
+}
+
+const register = (id: string, key: BlsKey): ValidatorRegistration => ({
+    id,
+    address: '0x' + '11'.repeat(20),
+    blsPublicKey: key.publicKey,
+    blsProofOfPossession: key.provePossession()
+});
+
+const createConsensus = async (actions: Action[]): Promise<{
+    consensus: PoSAConsensus;
+    manager: ValidatorManager;
+}> => {
+    const keys = actions.map(() => BlsKey.generate());
+    const validators = actions.map((action, i) => new FixedValidator(`v${i}`, keys[i]!, action));
+    const manager = new ValidatorManager({
+        validators,
+        registry: validators.map((validator, i) => register(validator.id, keys[i]!))
+    });
+    const consensus = new PoSAConsensus(manager, {
+        validatorCount: actions.length,
+        requiredVotes: 4,
+        roundTimeout: 2000,
+        blockTime: 1000
+    });
+    await consensus.initialize();
+    return { consensus, manager };
+};
+
+const runRound = async (actions: Action[]): Promise<{
+    block: Block;
+    round: ConsensusRound;
+    manager: ValidatorManager;
+}> => {
+    const { consensus, manager } = await createConsensus(actions);
+
+    const block = Block.createGenesis();
+    const reached = new Promise<ConsensusRound>(resolve => {
+        consensus.once('consensusReached', ({ round }) => resolve(round));
+    });
+    expect(await consensus.proposeBlock(block, 'v0')).toBe(true);
+    const round = await reached;
+    await consensus.stop();
+
+    return { block, round, manager };
+};
+
+describe('PoSAConsensus', () => {
+    it('certifies a quorum-approved block with the aggregate of its approvals', async () => {
+        const { block, round, manager } = await runRound(
+            ['approve', 'reject', 'approve', 'approve', 'abstain', 'approve']
+        );
+
+        expect(round.status).toBe('approved');
+        expect(round.votes.filter(vote => vote.vote === 'approve')).toHaveLength(4);
+        expect(round.certificate).toBeDefined();
+        expect(block.certificate).toBe(round.certificate);
+        expect(block.certificate!.getSigners()).toEqual([0, 2, 3, 5]);
+
+        const publicKeys = manager.getAllValidatorInfos().map(info => info.blsPublicKey);
+        expect(block.certificate!.verify(block.hash, publicKeys, 4)).toBe(true);
+        expect(block.certificate!.verify(block.hash, publicKeys, 5)).toBe(false);
+    });
+
+    it('signs the reasoning of every vote but the block hash only for approvals', async () => {
+        const { block, round, manager } = await runRound(
+            ['approve', 'reject', 'approve', 'reject', 'reject', 'reject']
+        );
+
+        expect(round.status).toBe('rejected');
+        expect(round.certificate).toBeUndefined();
+        expect(block.certificate).toBeNull();
+
+        for (const vote of round.votes) {
+            const publicKey = manager.getValidatorInfo(vote.validator)!.blsPublicKey;
+            const digest = block.getAttestationDigest(vote.reasoning, vote.timestamp);
+            expect(BlsKey.verify(vote.signature, digest, publicKey)).toBe(true);
+            expect(vote.blsSignature === '').toBe(vote.vote === 'reject');
+        }
+        expect(round.votes).toHaveLength(6);
+    });
+
+    it('does not activate a validator missing from the registry', () => {
+        const manager = new ValidatorManager({
+            validators: [new FixedValidator('v0', BlsKey.generate(), 'approve')],
+            registry: []
+        });
+
+        expect(manager.getValidator('v0')).toBeNull();
+        expect(manager.getValidatorInfo('v0')).toBeNull();
+    });
+
+    it('rejects a validator whose key differs from its registration', () => {
+        const registered = BlsKey.generate();
+        const validator = new FixedValidator('v0', BlsKey.generate(), 'approve');
+
+        expect(() => new ValidatorManager({
+            validators: [validator],
+            registry: [register('v0', registered)]
+        })).toThrow('BLS key other than its registered one');
+    });
+
+    it('rejects a registration without a valid proof of possession', () => {
+        const key = BlsKey.generate();
+        const registration = {
+            ...register('v0', key),
+            blsProofOfPossession: BlsKey.generate().provePossession()
+        };
+
+        expect(() => new ValidatorManager({
+            validators: [new FixedValidator('v0', key, 'approve')],
+            registry: [registration]
+        })).toThrow('invalid BLS key');
+    });
+
+    describe('round timeout', () => {
+        beforeEach(() => {
+            jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('clears the round timer once the round is decided', async () => {
+            const { round } = await runRound(Array<Action>(6).fill('approve'));
+
+            expect(round.status).toBe('approved');
+            expect(jest.getTimerCount()).toBe(0);
+        });
+
+        it('rejects a round still undecided when it times out', async () => {
+            const { consensus } = await createConsensus(Array<Action>(6).fill('abstain'));
+            const rounds: ConsensusRound[] = [];
+            consensus.on('consensusReached', ({ round }) => rounds.push(round));
+
+            await consensus.proposeBlock(Block.createGenesis(), 'v0');
+            jest.advanceTimersByTime(1999);
+            expect(consensus.isRoundActive()).toBe(true);
+
+            jest.advanceTimersByTime(1);
+            expect(consensus.isRoundActive()).toBe(false);
+            expect(rounds.map(round => round.status)).toEqual(['rejected']);
+            expect(jest.getTimerCount()).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,112 @@
+import { BlockBuilder, BlockLimits } from '../../../../src/blockchain/core/BlockBuilder';
+import { StateManager } from '../../../../src/blockchain/core/StateManager';
+import { Transaction } from '../../../../src/blockchain/core/Transaction';
+import { TransactionBundle } from '../../../../src/blockchain/core/TransactionBundle';
+import { Wallet } from '../../../../src/blockchain/wallet/Wallet';
+
+const GWEI = 1000000000n;
+const recipient = '0x' + '22'.repeat(20);
+const blockHash = '0x' + '0'.repeat(64);
+
+const transfer = (wallet: Wallet, nonce: bigint, value: bigint = 1n): Transaction =>
+    Transaction.createTransfer(wallet, recipient, value, nonce, GWEI);
+
+const setup = async (
+    limits: Partial<BlockLimits> = {}
+): Promise<{ state: StateManager; builder: BlockBuilder; a: Wallet; b: Wallet }> => {
+    const state = new StateManager();
+    const [a, b] = [Wallet.createRandom(), Wallet.createRandom()];
+    await state.setBalance(a.getAddress(), 10n ** 18n);
+    await state.setBalance(b.getAddress(), 10n ** 18n);
+    const builder = new BlockBuilder(state, 1n, blockHash, {
+        gasLimit: 10000000n,
+        maxSize: 1024 * 1024,
+        ...limits
+    });
+    return { state, builder, a, b };
+};
+
+describe('BlockBuilder', () => {
+    it('produces receipts with cumulative gas and transaction indexes', async () => {
+        const { builder, a, b } = await setup();
+
+        await builder.fill([transfer(a, 0n), transfer(b, 0n), transfer(a, 1n)]);
+        const body = builder.getResult();
+
+        expect(body.transactions).toHaveLength(3);
+        expect(body.gasUsed).toBe(63000n);
+        expect(body.receipts.map(receipt => receipt.transactionIndex)).toEqual([0, 1, 2]);
+        expect(body.receipts.map(receipt => receipt.cumulativeGasUsed))
+            .toEqual([21000n, 42000n, 63000n]);
+        expect(body.size).toBe(body.transactions.reduce((sum, tx) => sum + tx.getSize(), 0));
+    });
+
+    it('stops at the block gas limit', async () => {
+        const { builder, a, b } = await setup({ gasLimit: 50000n });
+
+        await builder.fill([transfer(a, 0n), transfer(b, 0n), transfer(a, 1n)]);
+
+        expect(builder.getResult().gasUsed).toBe(42000n);
+    });
+
+    it('stops at the block size limit', async () => {
+        const { state, a, b } = await setup();
+        const transactions = [transfer(a, 0n), transfer(b, 0n), transfer(a, 1n)];
+        const maxSize = transactions[0]!.getSize() + transactions[1]!.getSize();
+        const builder = new BlockBuilder(state, 1n, blockHash, { gasLimit: 10000000n, maxSize });
+
+        await builder.fill(transactions);
+
+        expect(builder.getResult().transactions).toEqual(transactions.slice(0, 2));
+        expect(builder.getResult().size).toBe(maxSize);
+    });
+
+    it('skips the rest of a sender once one of its transactions cannot execute', async () => {
+        const { builder, a, b } = await setup();
+
+        // Nonce 1 comes before nonce 0, so neither of a's transactions may be included
+        await builder.fill([transfer(a, 1n), transfer(b, 0n), transfer(a, 0n)]);
+
+        expect(builder.getResult().transactions.map(tx => tx.from)).toEqual([b.getAddress()]);
+    });
+
+    describe('bundles', () => {
+        it('includes a bundle whole and in order', async () => {
+            const { builder, a, b } = await setup();
+            const bundle = new TransactionBundle({
+                transactions: [transfer(a, 0n), transfer(b, 0n), transfer(a, 1n)]
+            });
+
+            expect(await builder.addBundle(bundle)).toBe(true);
+            expect(builder.getResult().transactions).toEqual(bundle.transactions);
+        });
+
+        it('rolls back a bundle that cannot execute in full', async () => {
+            const { state, builder, a, b } = await setup();
+            const included = transfer(b, 0n);
+            await builder.addTransaction(included);
+            const stateRoot = await state.getStateRoot();
+
+            // The second transaction spends more than a has
+            const bundle = new TransactionBundle({
+                transactions: [transfer(a, 0n), transfer(a, 1n, 10n ** 18n)]
+            });
+
+            expect(await builder.addBundle(bundle)).toBe(false);
+            expect(builder.getResult().transactions).toEqual([included]);
+            expect(builder.getResult().gasUsed).toBe(21000n);
+            expect(await state.getStateRoot()).toBe(stateRoot);
+            expect(await state.getNonce(a.getAddress())).toBe(0n);
+        });
+
+        it('does not include a bundled transaction again from the pool', async () => {
+            const { builder, a } = await setup();
+            const tx = transfer(a, 0n);
+            await builder.addBundle(new TransactionBundle({ transactions: [tx] }));
+
+            await builder.fill([tx, transfer(a, 1n)]);
+
+            expect(builder.getResult().transactions.map(entry => entry.nonce)).toEqual([0n, 1n]);
+        });
+    });
+});
@@ -0,0 +1,177 @@
+import { Block } from '../../../../src/blockchain/core/Block';
+import { Chain } from '../../../../src/blockchain/core/Chain';
+import { StateSnapshot } from '../../../../src/blockchain/core/StateManager';
+import { TransactionReceipt } from '../../../../src/blockchain/core/TransactionReceipt';
+import { Wallet } from '../../../../src/blockchain/wallet/Wallet';
+import { MemoryChainStore } from '../../../../src/database/MemoryChainStore';
+import { config } from '../../../../src/utils/config';
+
+// Blocks a second apart stay within the allowed drift; no pool journal on disk
+config.blockchain.blockTime = 1000;
+config.txpool.journal = '';
+
+/**
+ * Memory store whose block writes can be held back
+ */
+class GatedStore extends MemoryChainStore {
+    public saving = false;
+    private gate: Promise<void> = Promise.resolve();
+
+    /**
+     * Hold block writes back until the returned function is called
+     */
+    public pause(): () => void {
+        let open: () => void = () => undefined;
+        this.gate = new Promise(resolve => {
+            open = resolve;
+        });
+        return open;
+    }
+
+    public override async saveBlock(
+        block: Block,
+        receipts: TransactionReceipt[],
+        state: StateSnapshot
+    ): Promise<void> {
+        this.saving = true;
+        await this.gate;
+        this.saving = false;
+        return super.saveBlock(block, receipts, state);
+    }
+}
+
+const produce = (chain: Chain): Promise<void> =>
+    (chain as unknown as { produceBlock(): Promise<void> }).produceBlock();
+
+const setup = async (): Promise<{ chain: Chain; store: GatedStore; wallet: Wallet }> => {
+    const wallet = Wallet.createRandom();
+    const store = new GatedStore();
+    const chain = new Chain({ signer: wallet, store });
+    await chain.initialize();
+    await produce(chain);
+    return { chain, store, wallet };
+};
+
+/**
+ * Produce the next block, running the callback while the block is being stored
+ */
+const produceWhileStoring = async (
+    chain: Chain,
+    store: GatedStore,
+    during: () => void
+): Promise<Block> => {
+    const open = store.pause();
+    const producing = produce(chain);
+    while (!store.saving) {
+        await new Promise(resolve => setImmediate(resolve));
+    }
+
+    during();
+    open();
+    await producing;
+    return chain.getLatestBlock();
+};
+
+describe('Chain', () => {
+    describe('sealing', () => {
+        it('leaves the next block to another sealer after sealing one', async () => {
+            const wallet = Wallet.createRandom();
+            const chain = new Chain({
+                signer: wallet,
+                validators: [
+                    { id: 'local', address: wallet.getAddress() },
+                    { id: 'other', address: '0x' + 'ab'.repeat(20) }
+                ]
+            });
+            await chain.initialize();
+
+            await produce(chain);
+            await produce(chain);
+
+            expect(chain.getHeight()).toBe(1);
+            await chain.close();
+        });
+    });
+
+    describe('reasoning carry-over', () => {
+        it('keeps attestations that arrived before the child on the parent', async () => {
+            const { chain, wallet } = await setup();
+            const parent = chain.getLatestBlock();
+            const signature = parent.createValidatorSignature('local', wallet, 'valid block');
+            chain.addValidatorSignature(parent.hash, signature);
+
+            await produce(chain);
+            const child = chain.getLatestBlock();
+
+            expect(parent.validatorSignatures).toEqual([signature]);
+            expect(child.validatorSignatures).toEqual([]);
+            expect(child.header.reasoningRoot).toBe(parent.getReasoningRoot());
+            await chain.close();
+        });
+
+        it('moves a parent attestation that arrives while the child is stored', async () => {
+            const { chain, store, wallet } = await setup();
+            const parent = chain.getLatestBlock();
+            const signature = parent.createValidatorSignature('local', wallet, 'valid block');
+
+            const child = await produceWhileStoring(chain, store, () =>
+                chain.addValidatorSignature(parent.hash, signature)
+            );
+
+            expect(child.header.number).toBe(2n);
+            expect(parent.validatorSignatures).toEqual([]);
+            expect(child.header.reasoningRoot).toBe(parent.getReasoningRoot());
+            expect(child.validatorSignatures).toEqual([{ ...signature, blockHash: parent.hash }]);
+
+            // The late attestation is not accepted a second time
+            expect(() => chain.addValidatorSignature(parent.hash, signature))
+                .toThrow('has already signed');
+            await chain.close();
+        });
+
+        it('moves consensus votes that arrive while the child is stored', async () => {
+            const { chain, store } = await setup();
+            const parent = chain.getLatestBlock();
+            const vote = {
+                blockHash: parent.hash,
+                validator: 'v0',
+                vote: 'approve' as const,
+                reasoning: 'approved',
+                timestamp: Date.now(),
+                signature: 'ab'.repeat(96),
+                blsSignature: ''
+            };
+
+            const child = await produceWhileStoring(chain, store, () =>
+                chain.addConsensusVotes([vote])
+            );
+
+            expect(child.validatorSignatures).toEqual([{
+                validator: 'v0',
+                signature: vote.signature,
+                reasoning: 'approved',
+                timestamp: vote.timestamp,
+                vote: 'approve',
+                blockHash: parent.hash
+            }]);
+            expect(child.header.reasoningRoot).toBe(parent.getReasoningRoot());
+            await chain.close();
+        });
+
+        it('persists the moved signatures', async () => {
+            const { chain, store, wallet } = await setup();
+            const parent = chain.getLatestBlock();
+            const signature = parent.createValidatorSignature('local', wallet, 'valid block');
+
+            await produceWhileStoring(chain, store, () =>
+                chain.addValidatorSignature(parent.hash, signature)
+            );
+            await chain.close();
+
+            const stored = await store.loadBlocks();
+            expect(stored[1]!.block.validatorSignatures).toEqual([]);
+            expect(stored[2]!.block.validatorSignatures)
+                .toEqual([{ ...signature, blockHash: parent.hash }]);
+        });
+    });
+});
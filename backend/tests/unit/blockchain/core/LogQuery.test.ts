@@ -0,0 +1,56 @@
+import { LogQuery } from '../../../../src/blockchain/core/LogQuery';
+import { Log } from '../../../../src/blockchain/core/TransactionReceipt';
+import { Bloom } from '../../../../src/utils/bloom';
+
+const address = '0x' + 'ab'.repeat(20);
+const transferTopic = '0x' + 'aa'.repeat(32);
+const approvalTopic = '0x' + 'bb'.repeat(32);
+const owner = '0x' + '00'.repeat(12) + '44'.repeat(20);
+
+const log: Log = {
+    address,
+    topics: [transferTopic, owner],
+    data: '0x',
+    blockNumber: 1n,
+    blockHash: '0x' + '01'.repeat(32),
+    transactionHash: '0x' + '02'.repeat(32),
+    transactionIndex: 0,
+    logIndex: 0,
+    removed: false
+};
+
+describe('LogQuery', () => {
+    it('matches everything without criteria', () => {
+        expect(new LogQuery({}).matches(log)).toBe(true);
+    });
+
+    it('matches any of several addresses, ignoring case', () => {
+        expect(new LogQuery({ address: '0x' + 'AB'.repeat(20) }).matches(log)).toBe(true);
+        expect(new LogQuery({ address: ['0x' + '55'.repeat(20), address] }).matches(log))
+            .toBe(true);
+        expect(new LogQuery({ address: '0x' + '55'.repeat(20) }).matches(log)).toBe(false);
+    });
+
+    it('matches topics by position with wildcards and alternatives', () => {
+        expect(new LogQuery({ topics: [transferTopic] }).matches(log)).toBe(true);
+        expect(new LogQuery({ topics: [null, owner] }).matches(log)).toBe(true);
+        expect(new LogQuery({ topics: [[approvalTopic, transferTopic], owner] }).matches(log))
+            .toBe(true);
+        expect(new LogQuery({ topics: [[], owner] }).matches(log)).toBe(true);
+        expect(new LogQuery({ topics: [owner] }).matches(log)).toBe(false);
+    });
+
+    it('does not match more topic positions than the log has', () => {
+        expect(new LogQuery({ topics: [null, null, null] }).matches(log)).toBe(false);
+    });
+
+    it('rules out blocks whose bloom lacks the address or a topic', () => {
+        const bloom = Bloom.fromLogs([log]);
+
+        expect(new LogQuery({ address, topics: [transferTopic] }).mayMatch(bloom)).toBe(true);
+        expect(new LogQuery({ topics: [[approvalTopic, transferTopic]] }).mayMatch(bloom))
+            .toBe(true);
+        expect(new LogQuery({ topics: [approvalTopic] }).mayMatch(bloom)).toBe(false);
+        expect(new LogQuery({ address: '0x' + '55'.repeat(20) }).mayMatch(bloom)).toBe(false);
+    });
+});
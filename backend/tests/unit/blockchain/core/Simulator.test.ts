@@ -0,0 +1,78 @@
+import { Simulator } from '../../../../src/blockchain/core/Simulator';
+import { StateManager } from '../../../../src/blockchain/core/StateManager';
+
+const GAS_LIMIT = 30000000n;
+const funded = '0x1234567890123456789012345678901234567890';
+const recipient = '0x' + '22'.repeat(20);
+
+const createSimulator = async (): Promise<{ state: StateManager; simulator: Simulator }> => {
+    const state = new StateManager();
+    await state.setBalance(funded, 10n ** 18n);
+    return { state, simulator: new Simulator(state.captureState(), GAS_LIMIT) };
+};
+
+describe('Simulator', () => {
+    describe('estimateGas', () => {
+        it('estimates a plain transfer at the base cost', async () => {
+            const { simulator } = await createSimulator();
+
+            expect(await simulator.estimateGas({ from: funded, to: recipient, value: 1n }))
+                .toBe(21000n);
+        });
+
+        it('estimates calldata and contract creation at their intrinsic gas', async () => {
+            const { simulator } = await createSimulator();
+
+            expect(await simulator.estimateGas({ from: funded, to: recipient, data: '0x00ff' }))
+                .toBe(21000n + 4n + 16n);
+            expect(await simulator.estimateGas({ from: funded, to: null, data: '0x6000' }))
+                .toBe(53000n + 16n + 4n);
+        });
+
+        it('fails when the sender cannot afford the intrinsic gas', async () => {
+            const { simulator } = await createSimulator();
+
+            await expect(simulator.estimateGas({
+                from: funded,
+                to: recipient,
+                gasPrice: 10n ** 18n / 20000n
+            })).rejects.toThrow('gas required exceeds allowance (20000)');
+        });
+
+        it('fails when the value exceeds the balance', async () => {
+            const { simulator } = await createSimulator();
+
+            await expect(simulator.estimateGas({
+                from: funded,
+                to: recipient,
+                value: 10n ** 18n + 1n
+            })).rejects.toThrow('insufficient funds for transfer');
+        });
+    });
+
+    describe('call', () => {
+        it('never commits to the state it was created from', async () => {
+            const { state, simulator } = await createSimulator();
+
+            const result = await simulator.call({ from: funded, to: recipient, value: 5n });
+
+            expect(result).toEqual({
+                success: true,
+                returnData: '0x',
+                gasUsed: 21000n,
+                revertReason: null
+            });
+            expect(await state.getBalance(recipient)).toBe(0n);
+            expect(await state.getBalance(funded)).toBe(10n ** 18n);
+        });
+
+        it('reverts below the intrinsic gas', async () => {
+            const { simulator } = await createSimulator();
+
+            const result = await simulator.call({ from: funded, to: recipient, gas: 20999n });
+
+            expect(result.success).toBe(false);
+            expect(result.revertReason).toBe('intrinsic gas too low');
+        });
+    });
+});
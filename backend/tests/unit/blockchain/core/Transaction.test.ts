@@ -0,0 +1,191 @@
+import { AccessListItem, Transaction } from '../../../../src/blockchain/core/Transaction';
+import { Wallet } from '../../../../src/blockchain/wallet/Wallet';
+
+const SECP256K1_N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+const word = (value: bigint): string => '0x' + value.toString(16).padStart(64, '0');
+
+const wallet = new Wallet('0x' + '46'.repeat(32));
+const recipient = '0x' + '35'.repeat(20);
+const accessList: AccessListItem[] = [
+    { address: '0x' + '01'.repeat(20), storageKeys: [word(0n), word(1n)] }
+];
+
+describe('Transaction', () => {
+    describe('signatures', () => {
+        // Example transaction from EIP-155, signed for chain 1
+        const eip155 = new Transaction({
+            nonce: 9n,
+            gasPrice: 20000000000n,
+            gasLimit: 21000n,
+            to: recipient,
+            value: 1000000000000000000n,
+            data: '0x',
+            v: 37n,
+            r: word(18515461264373351373200002665853028612451056578545711640558177340181847433846n),
+            s: word(46948507304638947509940763649030358759909902576025900602547168820602576006531n)
+        });
+
+        it('recovers the sender of an EIP-155 signature', () => {
+            expect(eip155.getChainId()).toBe(1n);
+            expect(eip155.getSigningHash().toString('hex'))
+                .toBe('daf5a779ae972f972197303d7b574746c7ef83eadac0f2791ad23db92e4c8e53');
+            expect(eip155.from).toBe('0x9d8a62f656a8d1615c1294fd71e9cfb3e4855a4f');
+        });
+
+        it('rejects a signature for another chain', () => {
+            expect(eip155.validate()).toBe(false);
+        });
+
+        it('recovers the signer of a wallet-signed transfer', () => {
+            const tx = Transaction.createTransfer(wallet, recipient, 1n, 0n);
+
+            expect(tx.getChainId()).toBe(Transaction.CHAIN_ID);
+            expect(tx.from).toBe(wallet.getAddress());
+            expect(tx.validate()).toBe(true);
+        });
+
+        it('rejects high-s signatures', () => {
+            const tx = Transaction.createTransfer(wallet, recipient, 1n, 0n);
+            const base = Transaction.CHAIN_ID * 2n + 35n;
+            // (r, n - s) with the other recovery id is the same signature in its malleable form
+            const flipped = Transaction.fromJSON({
+                ...tx.toJSON(),
+                v: (base + 1n - (tx.v - base)).toString(),
+                s: word(SECP256K1_N - BigInt(tx.s))
+            });
+
+            expect(flipped.validate()).toBe(false);
+            expect(() => flipped.getSender()).toThrow('Invalid signature');
+        });
+
+        it('does not recover the signer from a tampered transaction', () => {
+            const tx = Transaction.createTransfer(wallet, recipient, 1n, 0n);
+            const tampered = Transaction.fromJSON({ ...tx.toJSON(), value: '2' });
+
+            expect(tampered.hash).not.toBe(tx.hash);
+            expect(tampered.from).not.toBe(wallet.getAddress());
+        });
+    });
+
+    describe('typed transactions', () => {
+        const signed = {
+            legacy: Transaction.createTransfer(wallet, recipient, 1n, 3n),
+            'access list': wallet.signTransaction({
+                type: 1,
+                nonce: 3n,
+                gasPrice: 5000000000n,
+                gasLimit: 30000n,
+                to: recipient,
+                value: 1n,
+                data: '0x00ff',
+                accessList
+            }),
+            'dynamic fee': wallet.signTransaction({
+                type: 2,
+                nonce: 3n,
+                maxFeePerGas: 7000000000n,
+                maxPriorityFeePerGas: 2000000000n,
+                gasLimit: 60000n,
+                to: null,
+                value: 0n,
+                data: '0x6000',
+                accessList
+            })
+        };
+
+        it.each(Object.entries(signed))('round-trips a %s transaction', (_, tx) => {
+            const decoded = Transaction.fromRaw(tx.serialize());
+
+            expect(decoded.hash).toBe(tx.hash);
+            expect(decoded.toJSON()).toEqual(tx.toJSON());
+            expect(decoded.from).toBe(wallet.getAddress());
+            expect(decoded.validate()).toBe(true);
+        });
+
+        it('prefixes typed encodings with their type byte', () => {
+            expect(signed.legacy.serialize().slice(0, 4)).toBe('0xf8');
+            expect(signed['access list'].serialize().slice(0, 4)).toBe('0x01');
+            expect(signed['dynamic fee'].serialize().slice(0, 4)).toBe('0x02');
+        });
+
+        it('signs typed transactions with a y-parity', () => {
+            expect([0n, 1n]).toContain(signed['access list'].v);
+            expect([0n, 1n]).toContain(signed['dynamic fee'].v);
+        });
+
+        it('caps the effective price of a dynamic fee transaction at its fee cap', () => {
+            const tx = signed['dynamic fee'];
+
+            expect(tx.getEffectiveGasPrice()).toBe(2000000000n);
+            expect(tx.getEffectiveGasPrice(3000000000n)).toBe(5000000000n);
+            expect(tx.getEffectiveGasPrice(6000000000n)).toBe(7000000000n);
+            expect(tx.getEffectiveTip(6000000000n)).toBe(1000000000n);
+            expect(tx.getCost()).toBe(60000n * 7000000000n);
+        });
+
+        it('rejects a priority fee above the fee cap', () => {
+            const tx = wallet.signTransaction({
+                type: 2,
+                nonce: 0n,
+                maxFeePerGas: 1n,
+                maxPriorityFeePerGas: 2n,
+                gasLimit: 21000n,
+                to: recipient,
+                value: 0n,
+                data: '0x'
+            });
+
+            expect(tx.validate()).toBe(false);
+        });
+
+        it('rejects a truncated typed encoding', () => {
+            const raw = signed['dynamic fee'].serialize();
+            expect(() => Transaction.fromRaw(raw.slice(0, -2))).toThrow();
+        });
+    });
+
+    describe('intrinsic gas', () => {
+        it.each<[string, string, boolean, AccessListItem[], bigint]>([
+            ['a plain transfer', '0x', false, [], 21000n],
+            ['calldata', '0x0000ff01', false, [], 21000n + 2n * 4n + 2n * 16n],
+            ['a contract creation', '0x', true, [], 53000n],
+            ['an access list', '0x', false, accessList, 21000n + 2400n + 2n * 1900n]
+        ])('charges for %s', (_, data, isCreation, list, expected) => {
+            expect(Transaction.calculateIntrinsicGas(data, isCreation, list)).toBe(expected);
+        });
+
+        it('rejects a gas limit below the intrinsic gas', () => {
+            const sign = (gasLimit: bigint): Transaction => wallet.signTransaction({
+                nonce: 0n,
+                gasPrice: 1n,
+                gasLimit,
+                to: recipient,
+                value: 0n,
+                data: '0xff'
+            });
+
+            expect(sign(21016n).getIntrinsicGas()).toBe(21016n);
+            expect(sign(21016n).validate()).toBe(true);
+            expect(sign(21015n).validate()).toBe(false);
+        });
+
+        it('rejects transactions over the maximum encoded size', () => {
+            const sign = (bytes: number): Transaction => wallet.signTransaction({
+                nonce: 0n,
+                gasPrice: 1n,
+                gasLimit: 10000000n,
+                to: recipient,
+                value: 0n,
+                data: '0x' + 'ff'.repeat(bytes)
+            });
+
+            const fits = sign(Transaction.MAX_SIZE - 200);
+            const oversized = sign(Transaction.MAX_SIZE);
+
+            expect(fits.getSize()).toBeLessThanOrEqual(Transaction.MAX_SIZE);
+            expect(fits.validate()).toBe(true);
+            expect(oversized.getSize()).toBeGreaterThan(Transaction.MAX_SIZE);
+            expect(oversized.validate()).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,614 @@
+import { AdmissionPolicy, ScreeningResult } from '../../../../src/blockchain/core/AdmissionPolicy';
+import { StateManager } from '../../../../src/blockchain/core/StateManager';
+import { Transaction } from '../../../../src/blockchain/core/Transaction';
+import { TransactionBundle } from '../../../../src/blockchain/core/TransactionBundle';
+import { TransactionPool } from '../../../../src/blockchain/core/TransactionPool';
+import { Wallet } from '../../../../src/blockchain/wallet/Wallet';
+
+const GWEI = 1000000000n;
+const recipient = '0x' + '22'.repeat(20);
+
+const transfer = (
+    wallet: Wallet,
+    nonce: bigint,
+    gasPrice: bigint = GWEI,
+    value: bigint = 1n
+): Transaction => Transaction.createTransfer(wallet, recipient, value, nonce, gasPrice);
+
+/**
+ * Admission policy that screens transactions above a value threshold with a fixed outcome
+ */
+class ValuePolicy implements AdmissionPolicy {
+    public screened: Transaction[] = [];
+    private gate: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly threshold: bigint,
+        private readonly outcome: ScreeningResult['outcome'] = 'accept'
+    ) { }
+
+    public shouldScreen(transaction: Transaction): boolean {
+        return transaction.value >= this.threshold;
+    }
+
+    /**
+     * Hold screenings back until the returned function is called
+     */
+    public pause(): () => void {
+        let open: () => void = () => undefined;
+        this.gate = new Promise(resolve => {
+            open = resolve;
+        });
+        return open;
+    }
+
+    public async screen(transaction: Transaction): Promise<ScreeningResult> {
+        await this.gate;
+        this.screened.push(transaction);
+        return { outcome: this.outcome, verdicts: [], screenedAt: Date.now() };
+    }
+}
+
+const setup = async (
+    wallets: number = 1
+): Promise<{ state: StateManager; pool: TransactionPool; accounts: Wallet[] }> => {
+    const state = new StateManager();
+    const accounts = Array.from({ length: wallets }, () => Wallet.createRandom());
+    for (const wallet of accounts) {
+        await state.setBalance(wallet.getAddress(), 10n ** 21n);
+    }
+    return { state, pool: new TransactionPool(state), accounts };
+};
+
+describe('TransactionPool', () => {
+    describe('bundles', () => {
+        it('accepts a valid bundle once', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            const bundle = new TransactionBundle({
+                transactions: [transfer(wallet!, 0n), transfer(wallet!, 1n)]
+            });
+
+            expect(await pool.addBundle(bundle)).toBe(true);
+            expect(await pool.addBundle(bundle)).toBe(false);
+            expect(pool.getBundles(1).map(b => b.id)).toEqual([bundle.id]);
+        });
+
+        it('rejects a bundle with a used nonce or an unfunded sender', async () => {
+            const { state, pool, accounts: [wallet] } = await setup();
+            await state.incrementNonce(wallet!.getAddress());
+
+            await expect(pool.addBundle(new TransactionBundle({
+                transactions: [transfer(wallet!, 0n)]
+            }))).rejects.toThrow('nonce too low');
+            await expect(pool.addBundle(new TransactionBundle({
+                transactions: [transfer(Wallet.createRandom(), 0n)]
+            }))).rejects.toThrow('insufficient funds');
+        });
+
+        it('rejects a bundle containing a transaction the admission policy screens', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            const policy = new ValuePolicy(1000n);
+            pool.setAdmissionPolicy(policy);
+
+            const bundle = new TransactionBundle({
+                transactions: [transfer(wallet!, 0n), transfer(wallet!, 1n, GWEI, 1000n)]
+            });
+
+            await expect(pool.addBundle(bundle)).rejects.toThrow('requires screening');
+            expect(pool.getBundle(bundle.id)).toBeNull();
+            expect(policy.screened).toEqual([]);
+        });
+
+        it('drops bundles past their last block', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            const bundle = new TransactionBundle({
+                transactions: [transfer(wallet!, 0n)],
+                minBlock: 2,
+                maxBlock: 3
+            });
+            await pool.addBundle(bundle);
+
+            expect(pool.getBundles(1)).toEqual([]);
+            expect(pool.getBundles(3)).toEqual([bundle]);
+            expect(pool.getBundles(4)).toEqual([]);
+            expect(pool.getBundle(bundle.id)).toBeNull();
+        });
+    });
+
+    describe('nonce lanes', () => {
+        it('queues a nonce gap and promotes it once the gap fills', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+
+            await pool.addTransaction(transfer(wallet!, 0n));
+            await pool.addTransaction(transfer(wallet!, 2n));
+            expect(pool.getSize()).toBe(1);
+            expect(pool.getQueuedCount()).toBe(1);
+            expect(pool.getPendingNonce(wallet!.getAddress())).toBe(1n);
+
+            await pool.addTransaction(transfer(wallet!, 1n));
+            expect(pool.getSize()).toBe(3);
+            expect(pool.getQueuedCount()).toBe(0);
+            expect(pool.getPendingNonce(wallet!.getAddress())).toBe(3n);
+        });
+
+        it('keeps each sender in nonce order while ordering senders by tip', async () => {
+            const { pool, accounts: [cheap, rich] } = await setup(2);
+
+            await pool.addTransaction(transfer(cheap!, 0n, 2n * GWEI));
+            await pool.addTransaction(transfer(cheap!, 1n, 9n * GWEI));
+            await pool.addTransaction(transfer(rich!, 0n, 5n * GWEI));
+
+            const pending = await pool.getPendingTransactions();
+            expect(pending.map(tx => [tx.from, tx.nonce])).toEqual([
+                [rich!.getAddress(), 0n],
+                [cheap!.getAddress(), 0n],
+                [cheap!.getAddress(), 1n]
+            ]);
+        });
+
+        it('moves later nonces back to the queue when a pending one is removed', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            const first = transfer(wallet!, 0n);
+            await pool.addTransaction(first);
+            await pool.addTransaction(transfer(wallet!, 1n));
+
+            await pool.removeTransaction(first.hash);
+
+            expect(pool.getSize()).toBe(0);
+            expect(pool.getQueuedCount()).toBe(1);
+            expect(pool.getContent().queued.get(wallet!.getAddress())?.map(tx => tx.nonce))
+                .toEqual([1n]);
+        });
+
+        it('promotes queued transactions when the chain advances the account nonce', async () => {
+            const { state, pool, accounts: [wallet] } = await setup();
+            const first = transfer(wallet!, 0n);
+            await pool.addTransaction(first);
+            await pool.addTransaction(transfer(wallet!, 2n));
+
+            // Nonces 0 and 1 are mined
+            await state.applyTransaction(first);
+            await state.applyTransaction(transfer(wallet!, 1n));
+            await pool.removeTransaction(first.hash);
+            pool.revalidate();
+
+            expect(pool.getSize()).toBe(1);
+            expect(pool.getQueuedCount()).toBe(0);
+        });
+    });
+
+    describe('replace-by-fee', () => {
+        it('replaces a same-nonce transaction paying at least the price bump', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            const original = transfer(wallet!, 0n, 10n * GWEI);
+            const replacement = transfer(wallet!, 0n, 11n * GWEI, 2n);
+            const dropped: Array<[string, string]> = [];
+            pool.on('dropped', (tx: Transaction, reason: string) => {
+                dropped.push([tx.hash, reason]);
+            });
+
+            await pool.addTransaction(original);
+            expect(await pool.addTransaction(replacement)).toBe(true);
+
+            expect(pool.getTransaction(original.hash)).toBeNull();
+            expect(pool.getTransaction(replacement.hash)).toBe(replacement);
+            expect(pool.getSize()).toBe(1);
+            expect(dropped).toEqual([[original.hash, 'replaced']]);
+        });
+
+        it('rejects an underpriced replacement', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            const original = transfer(wallet!, 0n, 10n * GWEI);
+            await pool.addTransaction(original);
+
+            await expect(pool.addTransaction(transfer(wallet!, 0n, 10n * GWEI + 1n, 2n)))
+                .rejects.toThrow('replacement transaction underpriced');
+            expect(pool.getTransaction(original.hash)).toBe(original);
+        });
+
+        it('requires both the fee cap and the tip of a replacement to rise', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            const dynamic = (maxFeePerGas: bigint, maxPriorityFeePerGas: bigint): Transaction =>
+                wallet!.signTransaction({
+                    type: 2,
+                    nonce: 0n,
+                    maxFeePerGas,
+                    maxPriorityFeePerGas,
+                    gasLimit: 21000n,
+                    to: recipient,
+                    value: 0n,
+                    data: '0x'
+                });
+            await pool.addTransaction(dynamic(20n * GWEI, 2n * GWEI));
+
+            await expect(pool.addTransaction(dynamic(40n * GWEI, 2n * GWEI)))
+                .rejects.toThrow('underpriced');
+            expect(await pool.addTransaction(dynamic(22n * GWEI, 3n * GWEI))).toBe(true);
+        });
+
+        it('replaces a queued transaction in place', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            await pool.addTransaction(transfer(wallet!, 1n, GWEI));
+
+            const replacement = transfer(wallet!, 1n, 2n * GWEI);
+            expect(await pool.addTransaction(replacement)).toBe(true);
+            expect(pool.getContent().queued.get(wallet!.getAddress())).toEqual([replacement]);
+        });
+    });
+
+    describe('state-aware admission', () => {
+        it('rejects nonces the account has already used', async () => {
+            const { state, pool, accounts: [wallet] } = await setup();
+            await state.incrementNonce(wallet!.getAddress());
+
+            await expect(pool.addTransaction(transfer(wallet!, 0n)))
+                .rejects.toThrow('nonce too low: next nonce 1, tx nonce 0');
+            expect(await pool.addTransaction(transfer(wallet!, 1n))).toBe(true);
+        });
+
+        it('rejects senders who cannot cover the maximum cost', async () => {
+            const { state, pool, accounts: [wallet] } = await setup();
+            await state.setBalance(wallet!.getAddress(), 21000n * GWEI);
+
+            await expect(pool.addTransaction(transfer(wallet!, 0n, GWEI, 1n)))
+                .rejects.toThrow('insufficient funds for gas * price + value');
+            expect(await pool.addTransaction(transfer(wallet!, 0n, GWEI, 0n))).toBe(true);
+        });
+
+        it('drops transactions the sender can no longer pay for after a block', async () => {
+            const { state, pool, accounts: [wallet] } = await setup();
+            const tx = transfer(wallet!, 0n);
+            const dropped: string[] = [];
+            pool.on('dropped', (_: Transaction, reason: string) => dropped.push(reason));
+            await pool.addTransaction(tx);
+
+            await state.setBalance(wallet!.getAddress(), 0n);
+            pool.revalidate();
+
+            expect(pool.getTransaction(tx.hash)).toBeNull();
+            expect(dropped).toEqual(['underfunded']);
+        });
+
+        it('drops transactions whose nonce the chain has passed', async () => {
+            const { state, pool, accounts: [wallet] } = await setup();
+            const tx = transfer(wallet!, 0n);
+            await pool.addTransaction(tx);
+
+            await state.incrementNonce(wallet!.getAddress());
+            pool.revalidate();
+
+            expect(pool.hasTransaction(tx.hash)).toBe(false);
+            expect(pool.getSize()).toBe(0);
+        });
+    });
+
+    describe('eviction', () => {
+        // Shrink the pool so a test can fill it
+        const limitPoolSize = (pool: TransactionPool, size: number): void => {
+            (pool as unknown as { MAX_POOL_SIZE: number }).MAX_POOL_SIZE = size;
+        };
+
+        it('evicts the lowest tip to admit a better paying transaction', async () => {
+            const { pool, accounts: [a, b, c] } = await setup(3);
+            limitPoolSize(pool, 2);
+            const cheapest = transfer(a!, 0n, GWEI);
+            await pool.addTransaction(cheapest);
+            await pool.addTransaction(transfer(b!, 0n, 3n * GWEI));
+
+            await expect(pool.addTransaction(transfer(c!, 0n, GWEI)))
+                .rejects.toThrow('transaction underpriced: pool is full');
+            expect(await pool.addTransaction(transfer(c!, 0n, 2n * GWEI))).toBe(true);
+            expect(pool.hasTransaction(cheapest.hash)).toBe(false);
+            expect(pool.getSize()).toBe(2);
+        });
+
+        it('queues a transaction whose pending predecessor was evicted for it', async () => {
+            const { pool, accounts: [a, b, c] } = await setup(3);
+            limitPoolSize(pool, 3);
+            const predecessor = transfer(a!, 0n, GWEI);
+            await pool.addTransaction(predecessor);
+            await pool.addTransaction(transfer(b!, 0n, 5n * GWEI));
+            await pool.addTransaction(transfer(c!, 0n, 5n * GWEI));
+
+            const successor = transfer(a!, 1n, 10n * GWEI);
+            expect(await pool.addTransaction(successor)).toBe(true);
+
+            const content = pool.getContent();
+            expect(pool.hasTransaction(predecessor.hash)).toBe(false);
+            expect(content.pending.get(a!.getAddress())).toBeUndefined();
+            expect(content.queued.get(a!.getAddress())).toEqual([successor]);
+            expect(pool.getPendingNonce(a!.getAddress())).toBe(0n);
+        });
+    });
+
+    describe('expiry', () => {
+        it('drops transactions pooled longer than the lifetime', async () => {
+            const { state, accounts: [a, b] } = await setup(2);
+            const pool = new TransactionPool(state, { lifetime: 1000 });
+            const dropped: Array<[string, string]> = [];
+            pool.on('dropped', (tx: Transaction, reason: string) => {
+                dropped.push([tx.hash, reason]);
+            });
+
+            const start = Date.now();
+            await pool.addTransaction(transfer(a!, 0n));
+            await pool.addTransaction(transfer(b!, 0n));
+
+            pool.expire(start + 999);
+            expect(dropped).toEqual([]);
+
+            pool.expire(Date.now() + 2000);
+            expect(dropped.map(([, reason]) => reason)).toEqual(['expired', 'expired']);
+            expect(pool.getSize()).toBe(0);
+        });
+
+        it('keeps a replacement for a full lifetime from its own arrival', async () => {
+            const { state, accounts: [wallet] } = await setup();
+            const pool = new TransactionPool(state, { lifetime: 60000 });
+            await pool.addTransaction(transfer(wallet!, 0n, GWEI));
+            const replacedAt = Date.now();
+            const replacement = transfer(wallet!, 0n, 2n * GWEI);
+            await pool.addTransaction(replacement);
+
+            pool.expire(replacedAt + 59000);
+
+            expect(pool.getTransaction(replacement.hash)).toBe(replacement);
+        });
+    });
+
+    describe('screening admission', () => {
+        // Let started screenings run to completion
+        const settle = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+        it('holds a selected transaction until it is screened, then admits it', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            const policy = new ValuePolicy(1000n, 'accept');
+            pool.setAdmissionPolicy(policy);
+            const added: Transaction[] = [];
+            pool.on('added', (tx: Transaction) => added.push(tx));
+
+            const open = policy.pause();
+            const tx = transfer(wallet!, 0n, GWEI, 1000n);
+            expect(await pool.addTransaction(tx)).toBe(true);
+            expect(pool.getTransactionStatus(tx.hash)?.state).toBe('screening');
+            expect(await pool.getPendingTransactions()).toEqual([]);
+
+            open();
+            await settle();
+
+            expect(policy.screened).toEqual([tx]);
+            expect(pool.getTransactionStatus(tx.hash)?.state).toBe('pending');
+            expect(await pool.getPendingTransactions()).toEqual([tx]);
+        });
+
+        it('admits transactions the policy does not select without screening', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            const policy = new ValuePolicy(1000n);
+            pool.setAdmissionPolicy(policy);
+
+            const tx = transfer(wallet!, 0n, GWEI, 999n);
+            await pool.addTransaction(tx);
+
+            expect(pool.getTransactionStatus(tx.hash)?.state).toBe('pending');
+            expect(policy.screened).toEqual([]);
+        });
+
+        it('drops a rejected transaction and keeps its verdict', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            pool.setAdmissionPolicy(new ValuePolicy(0n, 'reject'));
+            const dropped: string[] = [];
+            pool.on('dropped', (_: Transaction, reason: string) => dropped.push(reason));
+
+            const tx = transfer(wallet!, 0n);
+            await pool.addTransaction(tx);
+            await settle();
+
+            expect(pool.hasTransaction(tx.hash)).toBe(false);
+            expect(pool.getTransactionStatus(tx.hash)?.state).toBe('rejected');
+            expect(dropped).toEqual(['rejected']);
+        });
+
+        it('marks flagged transactions while admitting them', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            pool.setAdmissionPolicy(new ValuePolicy(0n, 'flag'));
+
+            const tx = transfer(wallet!, 0n);
+            await pool.addTransaction(tx);
+            await settle();
+
+            expect(pool.getTransactionStatus(tx.hash)).toMatchObject({
+                state: 'pending',
+                flagged: true
+            });
+        });
+
+        it('keeps a held transaction out of the pending set until released', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            pool.setAdmissionPolicy(new ValuePolicy(0n, 'hold'));
+
+            const tx = transfer(wallet!, 0n);
+            await pool.addTransaction(tx);
+            await settle();
+
+            expect(pool.getTransactionStatus(tx.hash)?.state).toBe('held');
+            expect(pool.getHeldTransactions()).toEqual([tx]);
+            expect(await pool.getPendingTransactions()).toEqual([]);
+
+            expect(await pool.releaseHeld(tx.hash)).toBe(true);
+            expect(pool.getTransactionStatus(tx.hash)?.state).toBe('pending');
+            expect(pool.getHeldTransactions()).toEqual([]);
+        });
+
+        it('lets a higher paying replacement take the place of a held transaction', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            pool.setAdmissionPolicy(new ValuePolicy(0n, 'hold'));
+            const held = transfer(wallet!, 0n, GWEI);
+            await pool.addTransaction(held);
+            await settle();
+
+            await expect(pool.addTransaction(transfer(wallet!, 0n, GWEI + 1n, 2n)))
+                .rejects.toThrow('replacement transaction underpriced');
+
+            const replacement = transfer(wallet!, 0n, 2n * GWEI);
+            expect(await pool.addTransaction(replacement)).toBe(true);
+            await settle();
+            expect(pool.hasTransaction(held.hash)).toBe(false);
+            expect(pool.getHeldTransactions()).toEqual([replacement]);
+        });
+
+        it('expires held transactions with the pool lifetime', async () => {
+            const { state, accounts: [wallet] } = await setup();
+            const pool = new TransactionPool(state, { lifetime: 1000 });
+            pool.setAdmissionPolicy(new ValuePolicy(0n, 'hold'));
+            const tx = transfer(wallet!, 0n);
+            await pool.addTransaction(tx);
+            await settle();
+
+            pool.expire(Date.now() + 2000);
+
+            expect(pool.getHeldTransactions()).toEqual([]);
+            expect(await pool.releaseHeld(tx.hash)).toBe(false);
+        });
+    });
+
+
+    describe('private lane', () => {
+        const settle = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+        it('offers private transactions to the producer only, up to their last block', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            const added: Transaction[] = [];
+            pool.on('added', (tx: Transaction) => added.push(tx));
+
+            const tx = transfer(wallet!, 0n);
+            expect(await pool.addPrivateTransaction(tx, 5)).toBe(true);
+            expect(await pool.addPrivateTransaction(tx, 5)).toBe(false);
+
+            expect(pool.getPrivateTransactions(5)).toEqual([tx]);
+            expect(pool.getPrivateTransactions(6)).toEqual([]);
+            expect(pool.getTransactionStatus(tx.hash)?.state).toBe('private');
+            expect(await pool.getPendingTransactions()).toEqual([]);
+            expect(added).toEqual([]);
+        });
+
+        it('limits private transactions per account', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            (pool as unknown as { MAX_PER_ACCOUNT: number }).MAX_PER_ACCOUNT = 2;
+            await pool.addPrivateTransaction(transfer(wallet!, 0n), 5);
+            await pool.addPrivateTransaction(transfer(wallet!, 1n), 5);
+
+            await expect(pool.addPrivateTransaction(transfer(wallet!, 2n), 5))
+                .rejects.toThrow('too many private transactions from sender (limit 2)');
+        });
+
+        it('replaces a same-nonce private transaction paying at least the price bump', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            const original = transfer(wallet!, 0n, GWEI);
+            await pool.addPrivateTransaction(original, 5);
+
+            await expect(pool.addPrivateTransaction(transfer(wallet!, 0n, GWEI + 1n), 5))
+                .rejects.toThrow('replacement transaction underpriced');
+
+            const replacement = transfer(wallet!, 0n, 2n * GWEI);
+            expect(await pool.addPrivateTransaction(replacement, 5)).toBe(true);
+            expect(pool.getPrivateTransactions(5)).toEqual([replacement]);
+            expect(pool.hasTransaction(original.hash)).toBe(false);
+        });
+
+        it('screens a selected private transaction before the producer sees it', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            const policy = new ValuePolicy(1000n, 'accept');
+            pool.setAdmissionPolicy(policy);
+            const added: Transaction[] = [];
+            pool.on('added', (tx: Transaction) => added.push(tx));
+
+            const open = policy.pause();
+            const tx = transfer(wallet!, 0n, GWEI, 1000n);
+            await pool.addPrivateTransaction(tx, 5);
+            expect(pool.getTransactionStatus(tx.hash)?.state).toBe('screening');
+            expect(pool.getPrivateTransactions(5)).toEqual([]);
+
+            open();
+            await settle();
+
+            expect(policy.screened).toEqual([tx]);
+            expect(pool.getPrivateTransactions(5)).toEqual([tx]);
+            expect(pool.getHeldTransactions()).toEqual([]);
+            expect(added).toEqual([]);
+        });
+
+        it('drops a rejected private transaction without announcing it', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            pool.setAdmissionPolicy(new ValuePolicy(0n, 'reject'));
+            const events: string[] = [];
+            pool.on('added', () => events.push('added'));
+            pool.on('dropped', () => events.push('dropped'));
+
+            const tx = transfer(wallet!, 0n);
+            await pool.addPrivateTransaction(tx, 5);
+            await settle();
+
+            expect(pool.hasTransaction(tx.hash)).toBe(false);
+            expect(pool.getTransactionStatus(tx.hash)?.state).toBe('rejected');
+            expect(events).toEqual([]);
+        });
+
+        it('keeps a held private transaction from the producer until released', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            pool.setAdmissionPolicy(new ValuePolicy(0n, 'hold'));
+
+            const tx = transfer(wallet!, 0n);
+            await pool.addPrivateTransaction(tx, 5);
+            await settle();
+
+            expect(pool.getTransactionStatus(tx.hash)?.state).toBe('held');
+            expect(pool.getPrivateTransactions(5)).toEqual([]);
+            expect(pool.getHeldTransactions()).toEqual([]);
+
+            expect(await pool.releaseHeld(tx.hash)).toBe(true);
+            expect(pool.getPrivateTransactions(5)).toEqual([tx]);
+        });
+
+        it('announces a fallback only once it is in the public pool', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            const policy = new ValuePolicy(1000n, 'accept');
+            pool.setAdmissionPolicy(policy);
+            const added: Transaction[] = [];
+            pool.on('added', (tx: Transaction) => added.push(tx));
+
+            const tx = transfer(wallet!, 0n, GWEI, 1000n);
+            await pool.addPrivateTransaction(tx, 5, true);
+            await settle();
+
+            pool.revalidate(4);
+            await settle();
+            expect(added).toEqual([]);
+
+            pool.revalidate(5);
+            await settle();
+
+            // Screened on submission, so not screened again on the way out
+            expect(policy.screened).toEqual([tx]);
+            expect(pool.getTransactionStatus(tx.hash)?.state).toBe('pending');
+            expect(added).toEqual([tx]);
+        });
+
+        it('drops an expired private transaction that is still held', async () => {
+            const { pool, accounts: [wallet] } = await setup();
+            pool.setAdmissionPolicy(new ValuePolicy(0n, 'hold'));
+            const added: Transaction[] = [];
+            pool.on('added', (tx: Transaction) => added.push(tx));
+
+            const tx = transfer(wallet!, 0n);
+            await pool.addPrivateTransaction(tx, 5, true);
+            await settle();
+
+            pool.revalidate(5);
+            await settle();
+
+            expect(pool.hasTransaction(tx.hash)).toBe(false);
+            expect(pool.getHeldTransactions()).toEqual([]);
+            expect(added).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,115 @@
+import { StateManager } from '../../../../src/blockchain/core/StateManager';
+import { Transaction } from '../../../../src/blockchain/core/Transaction';
+import {
+    EMPTY_LOGS_BLOOM,
+    ReceiptData,
+    TransactionReceipt
+} from '../../../../src/blockchain/core/TransactionReceipt';
+import { Wallet } from '../../../../src/blockchain/wallet/Wallet';
+
+const hash = (byte: string): string => '0x' + byte.repeat(32);
+
+const receiptData = (overrides: Partial<ReceiptData> = {}): ReceiptData => ({
+    type: 0,
+    status: 1,
+    transactionHash: hash('aa'),
+    transactionIndex: 0,
+    blockHash: hash('bb'),
+    blockNumber: 7n,
+    from: '0x' + '11'.repeat(20),
+    to: '0x' + '22'.repeat(20),
+    gasUsed: 21000n,
+    cumulativeGasUsed: 21000n,
+    effectiveGasPrice: 5000000000n,
+    contractAddress: null,
+    logs: [],
+    logsBloom: EMPTY_LOGS_BLOOM,
+    ...overrides
+});
+
+describe('TransactionReceipt', () => {
+    it('encodes status, cumulative gas, bloom and logs', () => {
+        const encoded = new TransactionReceipt(receiptData()).encode().toString('hex');
+
+        expect(encoded).toBe('f9010801825208b90100' + '00'.repeat(256) + 'c0');
+    });
+
+    it('prefixes typed receipts with the transaction type', () => {
+        const legacy = new TransactionReceipt(receiptData()).encode();
+        const typed = new TransactionReceipt(receiptData({ type: 2 })).encode();
+
+        expect(typed).toEqual(Buffer.concat([Buffer.from([2]), legacy]));
+    });
+
+    it('leaves block context out of the commitment', () => {
+        const receipt = new TransactionReceipt(receiptData());
+        const moved = new TransactionReceipt(receiptData({
+            blockHash: hash('cc'),
+            blockNumber: 8n,
+            transactionIndex: 3,
+            gasUsed: 1n
+        }));
+        const failed = new TransactionReceipt(receiptData({ status: 0 }));
+
+        expect(moved.getHash()).toBe(receipt.getHash());
+        expect(failed.getHash()).not.toBe(receipt.getHash());
+    });
+
+    it('round-trips through JSON', () => {
+        const receipt = new TransactionReceipt(receiptData({
+            logs: [{
+                address: '0x' + '33'.repeat(20),
+                topics: [hash('01')],
+                data: '0x1234',
+                blockNumber: 7n,
+                blockHash: hash('bb'),
+                transactionHash: hash('aa'),
+                transactionIndex: 0,
+                logIndex: 0,
+                removed: false
+            }]
+        }));
+        const restored = TransactionReceipt.fromJSON(JSON.parse(JSON.stringify(receipt)));
+
+        expect(restored).toEqual(receipt);
+        expect(restored.getHash()).toBe(receipt.getHash());
+    });
+
+    it('takes gas used and effective price from execution', async () => {
+        const wallet = Wallet.createRandom();
+        const state = new StateManager();
+        await state.setBalance(wallet.getAddress(), 10n ** 18n);
+
+        const tx = wallet.signTransaction({
+            type: 2,
+            nonce: 0n,
+            maxFeePerGas: 9n,
+            maxPriorityFeePerGas: 4n,
+            gasLimit: 50000n,
+            to: '0x' + '22'.repeat(20),
+            value: 1n,
+            data: '0x00ff'
+        });
+        const result = await state.applyTransaction(tx);
+
+        expect(result).toEqual({
+            success: true,
+            gasUsed: 21000n + 4n + 16n,
+            effectiveGasPrice: 4n,
+            logs: [],
+            contractAddress: null
+        });
+        expect(await state.getBalance(wallet.getAddress()))
+            .toBe(10n ** 18n - 1n - 4n * (21000n + 4n + 16n));
+    });
+
+    it('refuses to execute a transaction with a stale nonce', async () => {
+        const wallet = Wallet.createRandom();
+        const state = new StateManager();
+        await state.setBalance(wallet.getAddress(), 10n ** 18n);
+        const tx = Transaction.createTransfer(wallet, '0x' + '22'.repeat(20), 1n, 0n);
+
+        expect(await state.applyTransaction(tx)).not.toBeNull();
+        expect(await state.applyTransaction(tx)).toBeNull();
+    });
+});
@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StateManager } from '../../../../src/blockchain/core/StateManager';
+import { Transaction } from '../../../../src/blockchain/core/Transaction';
+import { TransactionPool } from '../../../../src/blockchain/core/TransactionPool';
+import { TxJournal } from '../../../../src/blockchain/core/TxJournal';
+import { Wallet } from '../../../../src/blockchain/wallet/Wallet';
+
+const recipient = '0x' + '22'.repeat(20);
+
+describe('TxJournal', () => {
+    let dir: string;
+    let path: string;
+    let wallet: Wallet;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(join(tmpdir(), 'txjournal-'));
+        path = join(dir, 'nested', 'txpool.journal');
+        wallet = Wallet.createRandom();
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    const transfer = (nonce: bigint): Transaction =>
+        Transaction.createTransfer(wallet, recipient, 1n, nonce);
+
+    it('loads nothing when there is no journal yet', async () => {
+        expect(await new TxJournal(path).load()).toEqual([]);
+    });
+
+    it('loads inserted transactions in order', async () => {
+        const journal = new TxJournal(path);
+        const transactions = [transfer(0n), transfer(1n)];
+        for (const tx of transactions) {
+            await journal.insert(tx);
+        }
+
+        const loaded = await new TxJournal(path).load();
+        expect(loaded.map(tx => tx.hash)).toEqual(transactions.map(tx => tx.hash));
+    });
+
+    it('skips corrupt lines such as a write cut short', async () => {
+        const journal = new TxJournal(path);
+        const tx = transfer(0n);
+        await journal.insert(tx);
+        await fs.appendFile(path, 'not a transaction\n' + transfer(1n).serialize().slice(0, 40));
+
+        const loaded = await journal.load();
+        expect(loaded.map(entry => entry.hash)).toEqual([tx.hash]);
+    });
+
+    it('replaces its contents on rotation', async () => {
+        const journal = new TxJournal(path);
+        await journal.insert(transfer(0n));
+        const kept = transfer(1n);
+        await journal.rotate([kept]);
+
+        expect((await journal.load()).map(tx => tx.hash)).toEqual([kept.hash]);
+        await expect(fs.access(`${path}.new`)).rejects.toThrow();
+    });
+
+    it('replays journaled transactions into a restarted pool, dropping stale ones', async () => {
+        const state = new StateManager();
+        await state.setBalance(wallet.getAddress(), 10n ** 21n);
+        const [mined, pending] = [transfer(0n), transfer(1n)];
+
+        const pool = new TransactionPool(state, { journalPath: path });
+        await pool.initialize();
+        await pool.addTransaction(mined);
+        await pool.addTransaction(pending);
+        await pool.close();
+
+        // Nonce 0 is mined before the restart
+        await state.applyTransaction(mined);
+
+        const restarted = new TransactionPool(state, { journalPath: path });
+        await restarted.initialize();
+        await restarted.close();
+
+        expect(restarted.hasTransaction(mined.hash)).toBe(false);
+        expect(restarted.getTransaction(pending.hash)?.hash).toBe(pending.hash);
+        expect((await new TxJournal(path).load()).map(tx => tx.hash)).toEqual([pending.hash]);
+    });
+});
@@ -0,0 +1,273 @@
+import { PoolClient } from 'pg';
+import { BlsKey, FinalityCertificate } from '../../../src/blockchain/consensus/FinalityCertificate';
+import { ConsensusRound } from '../../../src/blockchain/consensus/PoSAConsensus';
+import { Block } from '../../../src/blockchain/core/Block';
+import { BlockBuilder } from '../../../src/blockchain/core/BlockBuilder';
+import { StateManager } from '../../../src/blockchain/core/StateManager';
+import { Transaction } from '../../../src/blockchain/core/Transaction';
+import { Wallet } from '../../../src/blockchain/wallet/Wallet';
+import { Database } from '../../../src/database/connection';
+import { PostgresChainStore } from '../../../src/database/PostgresChainStore';
+
+/**
+ * In-memory stand-in for the PostgreSQL database that understands the statements the store
+ * issues. Rows are kept as pg returns them: BIGINT and NUMERIC as strings, JSONB parsed.
+ */
+class FakeDatabase {
+    public tables: { [table: string]: any[] } = {};
+    public transactions: string[][] = []; // statements of each transaction, e.g. 'INSERT blocks'
+
+    public async query(text: string, params: any[] = []): Promise<any[]> {
+        return this.execute(text, params);
+    }
+
+    public async transaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+        const statements: string[] = [];
+        this.transactions.push(statements);
+        const client = {
+            query: async (text: string, params: any[] = []) => {
+                statements.push(FakeDatabase.describe(text));
+                return { rows: this.execute(text, params) };
+            }
+        };
+        return work(client as unknown as PoolClient);
+    }
+
+    private static describe(text: string): string {
+        const verb = /\w+/.exec(text)![0];
+        const table = /(?:INTO|FROM|UPDATE)\s+(\w+)/.exec(text)![1];
+        return `${verb} ${table}`;
+    }
+
+    private execute(text: string, params: any[]): any[] {
+        const [verb, table] = FakeDatabase.describe(text).split(' ') as [string, string];
+        const rows = this.tables[table] ?? (this.tables[table] = []);
+        // Column arrays of an INSERT ... SELECT * FROM unnest(...), as rows
+        const unnest = (columns: string[]): any[] => (params[0] as unknown[]).map((_, i) =>
+            Object.fromEntries(columns.map((column, c) => [column, params[c][i]]))
+        );
+
+        switch (verb) {
+        case 'SELECT':
+            if (table === 'consensus_rounds') {
+                return rows.slice().reverse().slice(0, params[0]);
+            }
+            return rows.slice();
+        case 'UPDATE': {
+            const row = rows.find(candidate => candidate.hash === params[0]);
+            if (!row) {
+                return [];
+            }
+            row.validator_signatures = JSON.parse(params[1]);
+            row.certificate = params[2] && JSON.parse(params[2]);
+            return [{ number: row.number }];
+        }
+        case 'DELETE':
+            this.tables[table] = rows.filter(row => !params[0].includes(row.address));
+            return [];
+        }
+
+        switch (table) {
+        case 'blocks':
+            rows.push({
+                number: params[0],
+                hash: params[1],
+                header: JSON.parse(params[5]),
+                ommers: JSON.parse(params[6]),
+                validator_signatures: JSON.parse(params[7]),
+                certificate: params[8] && JSON.parse(params[8])
+            });
+            break;
+        case 'transactions':
+        case 'receipts':
+            rows.push(...unnest(['key', 'block_number', 'transaction_index']).map((row, i) => ({
+                ...row,
+                data: JSON.parse(params[params.length - 1][i])
+            })));
+            break;
+        case 'accounts':
+            const columns = ['address', 'balance', 'nonce', 'code_hash', 'storage_root'];
+            for (const row of unnest(columns)) {
+                this.tables[table] = [
+                    ...this.tables[table]!.filter(existing => existing.address !== row.address),
+                    row
+                ];
+            }
+            break;
+        case 'chain_state':
+            this.tables[table] = [{ block_number: params[0], state_root: params[1] }];
+            break;
+        case 'consensus_rounds':
+            rows.push({
+                id: rows.length + 1,
+                block_hash: params[0],
+                proposer: params[1],
+                status: params[2],
+                start_time: String(params[3]),
+                finalized_at: params[4] === null ? null : String(params[4]),
+                votes: JSON.parse(params[5]),
+                certificate: params[6] && JSON.parse(params[6])
+            });
+            break;
+        }
+        return [];
+    }
+}
+
+const recipient = '0x' + '22'.repeat(20);
+
+/**
+ * Genesis and a block with one executed transfer, with the state after each
+ */
+const createChain = async () => {
+    const state = new StateManager();
+    const wallet = Wallet.createRandom();
+    await state.setBalance(wallet.getAddress(), 10n ** 18n);
+    const genesis = Block.createGenesis();
+    const genesisState = state.captureState();
+
+    const builder = new BlockBuilder(state, 1n, '0x' + '0'.repeat(64), {
+        gasLimit: 10000000n,
+        maxSize: 1024 * 1024
+    });
+    await builder.fill([Transaction.createTransfer(wallet, recipient, 5n, 0n)]);
+    const body = builder.getResult();
+    const block = new Block({
+        header: { ...genesis.header, number: 1n, parentHash: genesis.hash },
+        transactions: body.transactions,
+        ommers: []
+    });
+
+    return { genesis, genesisState, block, receipts: body.receipts, state, wallet };
+};
+
+const setup = async () => {
+    const database = new FakeDatabase();
+    const chain = await createChain();
+    const store = new PostgresChainStore(database as unknown as Database);
+    await store.saveBlock(chain.genesis, [], chain.genesisState);
+    await store.saveBlock(chain.block, chain.receipts, chain.state.captureState());
+    return { database, store, ...chain };
+};
+
+describe('PostgresChainStore', () => {
+    it('loads nothing from an empty database', async () => {
+        const store = new PostgresChainStore(new FakeDatabase() as unknown as Database);
+
+        expect(await store.loadBlocks()).toEqual([]);
+        expect(await store.loadState()).toBeNull();
+    });
+
+    it('restores the blocks, transactions and receipts it saved', async () => {
+        const { database, genesis, block, receipts } = await setup();
+
+        const stored = await new PostgresChainStore(database as unknown as Database).loadBlocks();
+
+        expect(stored.map(entry => entry.block.hash)).toEqual([genesis.hash, block.hash]);
+        expect(stored[1]!.block.transactions.map(tx => tx.hash))
+            .toEqual(block.transactions.map(tx => tx.hash));
+        expect(stored[1]!.receipts.map(receipt => receipt.toJSON()))
+            .toEqual(receipts.map(receipt => receipt.toJSON()));
+        expect(stored[0]!.receipts).toEqual([]);
+    });
+
+    it('restores the state after the head block', async () => {
+        const { database, state, wallet } = await setup();
+
+        const restored = await new PostgresChainStore(database as unknown as Database).loadState();
+
+        expect(restored!.stateRoot).toBe(await state.getStateRoot());
+        expect(restored!.accounts.get(recipient)!.balance).toBe(5n);
+        expect(restored!.accounts.get(wallet.getAddress().toLowerCase())!.nonce).toBe(1n);
+    });
+
+    it('writes a block, its transactions, receipts and state in one transaction', async () => {
+        const { database } = await setup();
+
+        expect(database.transactions[1]).toEqual([
+            'INSERT blocks',
+            'INSERT transactions',
+            'INSERT receipts',
+            'INSERT accounts',
+            'INSERT chain_state'
+        ]);
+    });
+
+    it('writes only the accounts that changed since the last block', async () => {
+        const { database, store, block, wallet } = await setup();
+        const accounts = database.tables['accounts']!;
+        const sender = accounts.find(row => row.address === wallet.getAddress().toLowerCase())!;
+        const state = new StateManager();
+        for (const row of accounts) {
+            await state.setBalance(row.address, BigInt(row.balance));
+            state.getAccount(row.address)!.nonce = BigInt(row.nonce);
+        }
+        await state.setBalance(recipient, 6n);
+        const next = new Block({
+            header: { ...block.header, number: 2n, parentHash: block.hash },
+            transactions: [],
+            ommers: []
+        });
+
+        sender.balance = 'unchanged';
+        await store.saveBlock(next, [], state.captureState());
+
+        expect(database.transactions[2]).toEqual(['INSERT blocks', 'INSERT accounts',
+            'INSERT chain_state']);
+        const stored = database.tables['accounts']!;
+        expect(stored.find(row => row.address === recipient)!.balance).toBe('6');
+        expect(stored.find(row => row.address === sender.address)!.balance).toBe('unchanged');
+    });
+
+    it('rejects a stored block that does not hash to its row', async () => {
+        const { database, store } = await setup();
+        database.tables['blocks']![1]!.header.gasUsed = '1';
+
+        await expect(store.loadBlocks()).rejects.toThrow('Stored block 1 does not hash to');
+    });
+
+    it('updates the signatures of a stored block only', async () => {
+        const { database, store, block } = await setup();
+        block.carrySignature({
+            validator: 'v0',
+            signature: 'ab'.repeat(96),
+            reasoning: 'approved',
+            timestamp: 1,
+            vote: 'approve'
+        }, block.hash);
+
+        await store.updateBlock(block);
+        const [, stored] = await store.loadBlocks();
+
+        expect(stored!.block.validatorSignatures).toEqual(block.validatorSignatures);
+        expect(database.tables['blocks']).toHaveLength(2);
+        await expect(store.updateBlock(Block.createGenesis())).rejects.toThrow('is not stored');
+    });
+
+    it('keeps consensus rounds and returns the most recent oldest first', async () => {
+        const store = new PostgresChainStore(new FakeDatabase() as unknown as Database);
+        const key = BlsKey.generate();
+        const certificate = FinalityCertificate.aggregate(
+            [{ index: 0, signature: key.sign(Buffer.from('01', 'hex')) }],
+            1
+        );
+        const rounds: ConsensusRound[] = [1, 2, 3].map(startTime => ({
+            blockHash: `${startTime}`.repeat(64),
+            proposer: 'v0',
+            startTime,
+            votes: [],
+            status: 'rejected'
+        }));
+        rounds[2] = { ...rounds[2]!, status: 'approved', finalizedAt: 4, certificate };
+        for (const round of rounds) {
+            await store.saveConsensusRound(round);
+        }
+
+        const history = await store.loadConsensusHistory(2);
+
+        expect(history.map(round => round.startTime)).toEqual([2, 3]);
+        expect(history[0]).toEqual(rounds[1]);
+        expect(history[1]!.finalizedAt).toBe(4);
+        expect(history[1]!.certificate!.toJSON()).toEqual(certificate.toJSON());
+    });
+});
@@ -0,0 +1,81 @@
+import { PoolClient } from 'pg';
+import { Database } from '../../../src/database/connection';
+import { migrate, rollback } from '../../../src/database/migrate';
+import { chainStorage } from '../../../src/database/migrations/001_chain_storage';
+
+/**
+ * Database that tracks schema_migrations and records the statements run in transactions
+ */
+class FakeDatabase {
+    public applied: string[] = [];
+    public executed: string[] = [];
+
+    public async query(text: string): Promise<Array<{ id: string }>> {
+        if (!text.startsWith('SELECT')) {
+            return [];
+        }
+        const ids = [...this.applied].sort();
+        return (text.includes('DESC') ? ids.reverse().slice(0, 1) : ids).map(id => ({ id }));
+    }
+
+    public async transaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+        const client = {
+            query: async (text: string, params: string[] = []) => {
+                if (text.startsWith('INSERT INTO schema_migrations')) {
+                    this.applied.push(params[0]!);
+                } else if (text.startsWith('DELETE FROM schema_migrations')) {
+                    this.applied = this.applied.filter(id => id !== params[0]);
+                } else {
+                    this.executed.push(text);
+                }
+                return { rows: [] };
+            }
+        };
+        return work(client as unknown as PoolClient);
+    }
+}
+
+const setup = (): { fake: FakeDatabase; database: Database } => {
+    const fake = new FakeDatabase();
+    return { fake, database: fake as unknown as Database };
+};
+
+describe('migrate', () => {
+    it('applies pending migrations once', async () => {
+        const { fake, database } = setup();
+
+        expect(await migrate(database)).toEqual([chainStorage.id]);
+        expect(await migrate(database)).toEqual([]);
+        expect(fake.applied).toEqual([chainStorage.id]);
+        expect(fake.executed).toEqual([chainStorage.up]);
+    });
+
+    it('rolls back the latest migration', async () => {
+        const { fake, database } = setup();
+        await migrate(database);
+
+        expect(await rollback(database)).toBe(chainStorage.id);
+        expect(await rollback(database)).toBeNull();
+        expect(fake.applied).toEqual([]);
+        expect(fake.executed).toEqual([chainStorage.up, chainStorage.down]);
+    });
+
+    it('refuses to roll back a migration it does not know', async () => {
+        const { fake, database } = setup();
+        fake.applied = ['999_future'];
+
+        await expect(rollback(database))
+            .rejects.toThrow('Applied migration 999_future is not known to this version');
+        expect(fake.applied).toEqual(['999_future']);
+    });
+
+    it('drops every table the chain storage migration creates', () => {
+        const tables = (sql: string, pattern: RegExp): string[] =>
+            Array.from(sql.matchAll(pattern), match => match[1]!).sort();
+
+        const created = tables(chainStorage.up, /CREATE TABLE (?:IF NOT EXISTS )?(\w+)/g);
+
+        expect(created).toContain('blocks');
+        expect(tables(chainStorage.down, /DROP TABLE (?:IF EXISTS )?(\w+)/g)).toEqual(created);
+    });
+});
@@ -0,0 +1,87 @@
+import { StateManager } from '../../../src/blockchain/core/StateManager';
+import { Transaction } from '../../../src/blockchain/core/Transaction';
+import { Wallet } from '../../../src/blockchain/wallet/Wallet';
+import { getCreate2Address, getCreateAddress } from '../../../src/utils/address';
+
+const word = (value: string): string => '0x' + value.padStart(64, '0');
+
+describe('contract addresses', () => {
+    describe('getCreateAddress', () => {
+        const sender = '0x6ac7ea33f8831ea9dcc53393aaa88b25a785dbf0';
+
+        it.each<[bigint, string]>([
+            [0n, '0xcd234a471b72ba2f1ccf0a70fcaba648a5eecd8d'],
+            [1n, '0x343c43a37d37dff08ae8c4a11544c718abb4fcf8'],
+            [2n, '0xf778b86fa74e846c4f0a1fbd1335fe81c00a0c91'],
+            [3n, '0xfffd933a0bc612844eaf0c6fe3e5b8e9b6c1d19c']
+        ])('derives the address for nonce %s', (nonce, expected) => {
+            expect(getCreateAddress(sender, nonce)).toBe(expected);
+        });
+    });
+
+    describe('getCreate2Address', () => {
+        // Examples from EIP-1014
+        it.each<[string, string, string, string]>([
+            [
+                '0x0000000000000000000000000000000000000000',
+                word('0'),
+                '0x00',
+                '0x4d1a2e2bb4f88f0250f26ffff098b0b30b26bf38'
+            ],
+            [
+                '0xdeadbeef00000000000000000000000000000000',
+                word('0'),
+                '0x00',
+                '0xb928f69bb1d91cd65274e3c79d8986362984fda3'
+            ],
+            [
+                '0x00000000000000000000000000000000deadbeef',
+                word('cafebabe'),
+                '0xdeadbeef',
+                '0x60f3f640a8508fc6a86d45df051962668e1e8ac7'
+            ],
+            [
+                '0x0000000000000000000000000000000000000000',
+                word('0'),
+                '0x',
+                '0xe33c0c7f7df4809055c3eba6c09cfe4baf1bd9e0'
+            ]
+        ])('derives the address for sender %s', (sender, salt, initCode, expected) => {
+            expect(getCreate2Address(sender, salt, initCode)).toBe(expected);
+        });
+
+        it('requires a 32-byte salt', () => {
+            expect(() => getCreate2Address('0x' + '00'.repeat(20), '0x01', '0x00'))
+                .toThrow('CREATE2 salt must be 32 bytes');
+        });
+    });
+
+    describe('deployments', () => {
+        it('deploys a creation transaction at its CREATE address', async () => {
+            const wallet = Wallet.createRandom();
+            const state = new StateManager();
+            await state.setBalance(wallet.getAddress(), 10n ** 18n);
+
+            const tx = Transaction.createContractDeployment(wallet, '0x6000', 5n, 0n);
+            const result = await state.applyTransaction(tx);
+            const expected = getCreateAddress(wallet.getAddress(), 0n);
+
+            expect(tx.getContractAddress()).toBe(expected);
+            expect(result?.contractAddress).toBe(expected);
+            expect(state.getCode(expected)).toBe('0x6000');
+            expect(await state.getBalance(expected)).toBe(5n);
+            expect(await state.getNonce(expected)).toBe(1n);
+        });
+
+        it('refuses a CREATE2 deployment at an address that already has code', async () => {
+            const state = new StateManager();
+            const deployer = '0x1234567890123456789012345678901234567890';
+
+            const address = await state.createContract2(deployer, word('1'), '0x6000');
+
+            expect(address).toBe(getCreate2Address(deployer, word('1'), '0x6000'));
+            expect(state.getContract(address!)?.salt).toBe(word('1'));
+            expect(await state.createContract2(deployer, word('1'), '0x6000')).toBeNull();
+        });
+    });
+});
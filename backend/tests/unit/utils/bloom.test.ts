@@ -0,0 +1,83 @@
+import { keccak256 } from '@ethereum/util';
+import { Bloom } from '../../../src/utils/bloom';
+import { hexToBuffer } from '../../../src/utils/rlp';
+
+const address = '0x' + 'ab'.repeat(20);
+const topic = '0x' + '12'.repeat(32);
+
+/**
+ * Bits set by one entry, computed straight from the yellow paper definition: the low 11 bits
+ * of each of the first three byte pairs of keccak256, bit 0 being the last bit of the filter
+ */
+const expectedBits = (value: Buffer): Set<number> => {
+    const hash = keccak256(value);
+    const bits = new Set<number>();
+    for (let i = 0; i < 6; i += 2) {
+        bits.add(((hash[i]! << 8) | hash[i + 1]!) & 2047);
+    }
+    return bits;
+};
+
+const setBits = (bloom: Bloom): Set<number> => {
+    const bytes = hexToBuffer(bloom.toHex());
+    const bits = new Set<number>();
+    for (let bit = 0; bit < 2048; bit++) {
+        if (bytes[Bloom.BYTES - 1 - (bit >> 3)]! & (1 << (bit & 7))) {
+            bits.add(bit);
+        }
+    }
+    return bits;
+};
+
+describe('Bloom', () => {
+    it('is 256 zero bytes when empty', () => {
+        expect(new Bloom().toHex()).toBe('0x' + '00'.repeat(256));
+    });
+
+    it('sets the three bits derived from the keccak256 hash of an entry', () => {
+        const bloom = new Bloom();
+        bloom.add(hexToBuffer(address));
+
+        expect(setBits(bloom)).toEqual(expectedBits(hexToBuffer(address)));
+    });
+
+    it('contains every added entry', () => {
+        const bloom = Bloom.fromLogs([{ address, topics: [topic] }]);
+
+        expect(bloom.has(hexToBuffer(address))).toBe(true);
+        expect(bloom.has(hexToBuffer(topic))).toBe(true);
+        expect(setBits(bloom)).toEqual(new Set([
+            ...expectedBits(hexToBuffer(address)),
+            ...expectedBits(hexToBuffer(topic))
+        ]));
+    });
+
+    it('does not contain entries whose bits are not all set', () => {
+        const bloom = Bloom.fromLogs([{ address, topics: [] }]);
+        const other = hexToBuffer('0x' + 'cd'.repeat(20));
+
+        // Chosen so that not all of its bits collide with those of the address
+        expect([...expectedBits(other)].every(bit => setBits(bloom).has(bit))).toBe(false);
+        expect(bloom.has(other)).toBe(false);
+    });
+
+    it('merges blooms with or', () => {
+        const a = Bloom.fromLogs([{ address, topics: [] }]);
+        const b = Bloom.fromLogs([{ address: '0x' + 'cd'.repeat(20), topics: [topic] }]);
+        const merged = new Bloom().or(a).or(b);
+
+        expect(setBits(merged)).toEqual(new Set([...setBits(a), ...setBits(b)]));
+        expect(merged.has(hexToBuffer(address))).toBe(true);
+        expect(merged.has(hexToBuffer(topic))).toBe(true);
+    });
+
+    it('round-trips through hex', () => {
+        const bloom = Bloom.fromLogs([{ address, topics: [topic] }]);
+        expect(Bloom.fromHex(bloom.toHex()).toHex()).toBe(bloom.toHex());
+    });
+
+    it('rejects filters of the wrong size', () => {
+        expect(() => new Bloom(Buffer.alloc(255))).toThrow('256 bytes');
+        expect(() => Bloom.fromHex('0x00')).toThrow('256 bytes');
+    });
+});
@@ -0,0 +1,96 @@
+import { IndexedHeap } from '../../../src/utils/heap';
+
+interface Item {
+    id: string;
+    priority: number;
+}
+
+const createHeap = (): IndexedHeap<Item> =>
+    new IndexedHeap<Item>(item => item.id, (a, b) => a.priority > b.priority);
+
+const drain = (heap: IndexedHeap<Item>): number[] => {
+    const priorities: number[] = [];
+    for (let item = heap.pop(); item !== undefined; item = heap.pop()) {
+        priorities.push(item.priority);
+    }
+    return priorities;
+};
+
+describe('IndexedHeap', () => {
+    it('pops items in priority order', () => {
+        const heap = createHeap();
+        const priorities = [5, 1, 9, 3, 7, 2, 8, 6, 4, 0];
+        for (const priority of priorities) {
+            heap.push({ id: `item-${priority}`, priority });
+        }
+
+        expect(heap.size).toBe(priorities.length);
+        expect(heap.peek()?.priority).toBe(9);
+        expect(drain(heap)).toEqual([9, 8, 7, 6, 5, 4, 3, 2, 1, 0]);
+        expect(heap.size).toBe(0);
+        expect(heap.pop()).toBeUndefined();
+    });
+
+    it('ignores a push of a key already in the heap', () => {
+        const heap = createHeap();
+        heap.push({ id: 'a', priority: 1 });
+        heap.push({ id: 'a', priority: 100 });
+
+        expect(heap.size).toBe(1);
+        expect(heap.peek()?.priority).toBe(1);
+    });
+
+    it('removes items by key from any position', () => {
+        const heap = createHeap();
+        for (let priority = 0; priority < 20; priority++) {
+            heap.push({ id: `item-${priority}`, priority });
+        }
+
+        expect(heap.remove('item-19')).toBe(true);
+        expect(heap.remove('item-7')).toBe(true);
+        expect(heap.remove('item-0')).toBe(true);
+        expect(heap.remove('item-7')).toBe(false);
+        expect(heap.has('item-7')).toBe(false);
+        expect(heap.has('item-8')).toBe(true);
+
+        const expected = Array.from({ length: 20 }, (_, i) => 19 - i)
+            .filter(priority => ![19, 7, 0].includes(priority));
+        expect(drain(heap)).toEqual(expected);
+    });
+
+    it('stays ordered under random pushes and removals', () => {
+        const heap = createHeap();
+        const live = new Map<string, number>();
+        let seed = 42;
+        const random = (): number => {
+            seed = (seed * 1103515245 + 12345) % 2147483648;
+            return seed;
+        };
+
+        for (let i = 0; i < 500; i++) {
+            const id = `item-${random() % 100}`;
+            if (live.has(id) && random() % 2 === 0) {
+                expect(heap.remove(id)).toBe(true);
+                live.delete(id);
+            } else if (!live.has(id)) {
+                const priority = random() % 1000;
+                heap.push({ id, priority });
+                live.set(id, priority);
+            }
+        }
+
+        expect(heap.size).toBe(live.size);
+        expect(drain(heap)).toEqual(Array.from(live.values()).sort((a, b) => b - a));
+    });
+
+    it('clears all items', () => {
+        const heap = createHeap();
+        heap.push({ id: 'a', priority: 1 });
+        heap.push({ id: 'b', priority: 2 });
+        heap.clear();
+
+        expect(heap.size).toBe(0);
+        expect(heap.has('a')).toBe(false);
+        expect(heap.peek()).toBeUndefined();
+    });
+});
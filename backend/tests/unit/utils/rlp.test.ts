@@ -0,0 +1,94 @@
+import {
+    bigIntToBuffer,
+    bufferToBigInt,
+    decodeRlp,
+    encodeRlp,
+    hexToBuffer,
+    RlpInput
+} from '../../../src/utils/rlp';
+
+const hex = (value: string): Buffer => hexToBuffer(value);
+const text = (value: string): Buffer => Buffer.from(value, 'utf8');
+
+describe('rlp', () => {
+    describe('encodeRlp', () => {
+        // Vectors from the Ethereum RLP specification
+        it.each<[string, RlpInput, string]>([
+            ['empty string', Buffer.alloc(0), '0x80'],
+            ['single byte below 0x80', hex('0x0f'), '0x0f'],
+            ['single byte 0x80', hex('0x80'), '0x8180'],
+            ['short string', text('dog'), '0x83646f67'],
+            ['empty list', [], '0xc0'],
+            ['list of strings', [text('cat'), text('dog')], '0xc88363617483646f67'],
+            [
+                'set theoretical representation of three',
+                [[], [[]], [[], [[]]]],
+                '0xc7c0c1c0c3c0c1c0'
+            ]
+        ])('encodes %s', (_, input, expected) => {
+            expect(encodeRlp(input).toString('hex')).toBe(expected.slice(2));
+        });
+
+        it('uses a long length prefix from 56 bytes', () => {
+            const input = text('Lorem ipsum dolor sit amet, consectetur adipisicing elit');
+            expect(input.length).toBe(56);
+            expect(encodeRlp(input).subarray(0, 2).toString('hex')).toBe('b838');
+        });
+    });
+
+    describe('decodeRlp', () => {
+        it('round-trips nested lists', () => {
+            const input: RlpInput = [text('cat'), [text('dog'), Buffer.alloc(0)], hex('0x00')];
+            expect(decodeRlp(encodeRlp(input))).toEqual(input);
+        });
+
+        it('round-trips long strings and lists', () => {
+            const input: RlpInput = [Buffer.alloc(1024, 0xab), Array(60).fill(text('x'))];
+            expect(decodeRlp(encodeRlp(input))).toEqual(input);
+        });
+
+        it.each([
+            ['a single byte below 0x80 with a string prefix', '0x8105'],
+            ['a long length prefix for a short string', '0xb801' + '61'],
+            ['a long length with leading zero bytes', '0xb90038' + '61'.repeat(56)],
+            ['a long list length prefix for a short list', '0xf80180']
+        ])('rejects %s', (_, encoded) => {
+            expect(() => decodeRlp(hex(encoded))).toThrow(/Non-canonical|Invalid/);
+        });
+
+        it('rejects trailing bytes', () => {
+            expect(() => decodeRlp(hex('0x8000'))).toThrow('trailing bytes');
+        });
+
+        it.each([
+            ['string', '0x83646f'],
+            ['list', '0xc88363617483646f'],
+            ['length prefix', '0xb9']
+        ])('rejects a truncated %s', (_, encoded) => {
+            expect(() => decodeRlp(hex(encoded))).toThrow(/truncated|Invalid/);
+        });
+
+        it('rejects empty input', () => {
+            expect(() => decodeRlp(Buffer.alloc(0))).toThrow('truncated');
+        });
+    });
+
+    describe('integers', () => {
+        it('encodes integers minimally', () => {
+            expect(bigIntToBuffer(0n).length).toBe(0);
+            expect(bigIntToBuffer(15n).toString('hex')).toBe('0f');
+            expect(bigIntToBuffer(1024n).toString('hex')).toBe('0400');
+        });
+
+        it('round-trips integers', () => {
+            for (const value of [0n, 1n, 127n, 128n, 256n, 2n ** 255n]) {
+                expect(bufferToBigInt(bigIntToBuffer(value))).toBe(value);
+            }
+        });
+
+        it('rejects negative integers and leading zeros', () => {
+            expect(() => bigIntToBuffer(-1n)).toThrow('negative');
+            expect(() => bufferToBigInt(hex('0x0001'))).toThrow('leading zero');
+        });
+    });
+});
@@ -0,0 +1,102 @@
+import {
+    EMPTY_TRIE_ROOT,
+    indexKey,
+    MerklePatriciaTrie,
+    orderedTrieRoot,
+    verifyTrieProof
+} from '../../../src/utils/trie';
+
+const text = (value: string): Buffer => Buffer.from(value, 'utf8');
+
+const trieOf = (entries: Array<[string, string]>): MerklePatriciaTrie =>
+    new MerklePatriciaTrie(entries.map(([key, value]) => [text(key), text(value)]));
+
+describe('MerklePatriciaTrie', () => {
+    // Vectors from the Ethereum trie tests (trieanyorder.json)
+    it.each<[string, Array<[string, string]>, string]>([
+        [
+            'doe/dog/dogglesworth',
+            [['doe', 'reindeer'], ['dog', 'puppy'], ['dogglesworth', 'cat']],
+            '0x8aad789dff2f538bca5d8ea56e8abe10f4c7ba3a5dea95fea4cd6e7c3a1168d3'
+        ],
+        [
+            'do/dog/doge/horse',
+            [['do', 'verb'], ['dog', 'puppy'], ['doge', 'coin'], ['horse', 'stallion']],
+            '0x5991bb8c6514148a29db676a14ac506cd2cd5775ace63c30a4fe457715e9ac84'
+        ],
+        [
+            'foo/food',
+            [['foo', 'bar'], ['food', 'bass']],
+            '0x17beaa1648bafa633cda809c90c04af50fc8aed3cb40d16efbddee6fdf63c4c3'
+        ]
+    ])('computes the root of %s', (_, entries, root) => {
+        expect(trieOf(entries).getRoot()).toBe(root);
+    });
+
+    it('does not depend on insertion order', () => {
+        const entries: Array<[string, string]> = [
+            ['do', 'verb'], ['dog', 'puppy'], ['doge', 'coin'], ['horse', 'stallion']
+        ];
+        expect(trieOf([...entries].reverse()).getRoot()).toBe(trieOf(entries).getRoot());
+    });
+
+    it('has the empty root when empty', () => {
+        expect(new MerklePatriciaTrie([]).getRoot()).toBe(EMPTY_TRIE_ROOT);
+        expect(orderedTrieRoot([])).toBe(EMPTY_TRIE_ROOT);
+    });
+
+    it('rejects duplicate keys', () => {
+        expect(() => trieOf([['dog', 'puppy'], ['dog', 'hound']])).toThrow('Duplicate trie key');
+    });
+
+    describe('proofs', () => {
+        const entries: Array<[string, string]> = [
+            ['doe', 'reindeer'], ['dog', 'puppy'], ['dogglesworth', 'cat']
+        ];
+        const trie = trieOf(entries);
+
+        it.each(entries)('proves %s => %s', (key, value) => {
+            const proof = trie.getProof(text(key));
+            expect(verifyTrieProof(trie.getRoot(), text(key), proof)).toEqual(text(value));
+        });
+
+        it('proves the absence of a missing key', () => {
+            const proof = trie.getProof(text('dogs'));
+            expect(verifyTrieProof(trie.getRoot(), text('dogs'), proof)).toBeNull();
+        });
+
+        it('rejects a proof against a different root', () => {
+            const proof = trie.getProof(text('dog'));
+            const other = trieOf([['dog', 'kitten']]).getRoot();
+            expect(() => verifyTrieProof(other, text('dog'), proof)).toThrow('Missing trie node');
+        });
+
+        it('rejects a tampered proof', () => {
+            const proof = trie.getProof(text('dog')).map(node => Buffer.from(node));
+            const last = proof[proof.length - 1]!;
+            const i = last.length - 1;
+            last.writeUInt8(last.readUInt8(i) ^ 0x01, i);
+            expect(() => verifyTrieProof(trie.getRoot(), text('dog'), proof)).toThrow();
+        });
+    });
+
+    describe('ordered lists', () => {
+        it('keys list items by rlp(index)', () => {
+            expect(indexKey(0).toString('hex')).toBe('80');
+            expect(indexKey(1).toString('hex')).toBe('01');
+            expect(indexKey(128).toString('hex')).toBe('8180');
+        });
+
+        it('proves every item of a list crossing the single-byte key boundary', () => {
+            const values = Array.from({ length: 130 }, (_, i) => text(`value-${i}`));
+            const trie = MerklePatriciaTrie.fromList(values);
+            expect(orderedTrieRoot(values)).toBe(trie.getRoot());
+
+            for (const index of [0, 1, 127, 128, 129]) {
+                const key = indexKey(index);
+                expect(verifyTrieProof(trie.getRoot(), key, trie.getProof(key)))
+                    .toEqual(values[index]);
+            }
+        });
+    });
+});
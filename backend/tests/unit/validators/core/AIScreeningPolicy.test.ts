@@ -0,0 +1,114 @@
+import { BlsKey } from '../../../../src/blockchain/consensus/FinalityCertificate';
+import { Block } from '../../../../src/blockchain/core/Block';
+import { StateManager } from '../../../../src/blockchain/core/StateManager';
+import { Transaction } from '../../../../src/blockchain/core/Transaction';
+import { Wallet } from '../../../../src/blockchain/wallet/Wallet';
+import { AIScreeningPolicy } from '../../../../src/validators/core/AIScreeningPolicy';
+import { BaseValidator, ValidatorDecision } from '../../../../src/validators/core/BaseValidator';
+
+type Verdict = Pick<ValidatorDecision, 'action' | 'confidence'> | 'fail' | 'silent';
+
+/**
+ * Validator with a fixed verdict on every transaction
+ */
+class FixedValidator extends BaseValidator {
+    constructor(id: string, private readonly verdict: Verdict) {
+        super(id, id, 'fixed', 'testing', 'none', BlsKey.generate());
+    }
+
+    public async validateBlock(block: Block): Promise<ValidatorDecision> {
+        return this.decide(block.hash);
+    }
+
+    public async validateTransaction(transaction: Transaction): Promise<ValidatorDecision> {
+        if (this.verdict === 'fail') {
+            throw new Error('provider unavailable');
+        }
+        if (this.verdict === 'silent') {
+            return new Promise(() => undefined);
+        }
+        return this.decide(transaction.hash);
+    }
+
+    public async evaluateProposal(): Promise<ValidatorDecision> {
+        return this.decide('proposal');
+    }
+
+    private decide(subject: string): ValidatorDecision {
+        const { action, confidence } = this.verdict === 'fail' || this.verdict === 'silent'
+            ? { action: 'abstain' as const, confidence: 0 }
+            : this.verdict;
+        return { action, reasoning: `${action} ${subject}`, confidence, timestamp: Date.now() };
+    }
+}
+
+const approve = { action: 'approve', confidence: 0.9 } as const;
+const reject = { action: 'reject', confidence: 0.9 } as const;
+const unsure = { action: 'reject', confidence: 0.2 } as const;
+
+const wallet = Wallet.createRandom();
+const transaction = Transaction.createTransfer(wallet, '0x' + '22'.repeat(20), 1n, 0n);
+
+const screen = async (verdicts: Verdict[], timeout?: number): Promise<string> => {
+    const validators = verdicts.map((verdict, i) => new FixedValidator(`v${i}`, verdict));
+    const policy = new AIScreeningPolicy(validators, timeout ? { timeout } : {});
+    return (await policy.screen(transaction)).outcome;
+};
+
+describe('AIScreeningPolicy', () => {
+    describe('shouldScreen', () => {
+        const state = new StateManager();
+        const known = '0x1234567890123456789012345678901234567890';
+        const unknown = '0x' + '33'.repeat(20);
+        const validators = [new FixedValidator('v0', approve)];
+
+        it('selects transfers at or above the value threshold', () => {
+            const policy = new AIScreeningPolicy(validators, { valueThreshold: 100n });
+            const send = (value: bigint): Transaction =>
+                Transaction.createTransfer(wallet, known, value, 0n);
+
+            expect(policy.shouldScreen(send(99n), state)).toBe(false);
+            expect(policy.shouldScreen(send(100n), state)).toBe(true);
+        });
+
+        it('selects contract creations unless disabled', () => {
+            const deployment = Transaction.createContractDeployment(wallet, '0x6000', 0n, 0n);
+
+            expect(new AIScreeningPolicy(validators).shouldScreen(deployment, state)).toBe(true);
+            expect(new AIScreeningPolicy(validators, { contractCreation: false })
+                .shouldScreen(deployment, state)).toBe(false);
+        });
+
+        it('selects transfers to unknown recipients when enabled', () => {
+            const policy = new AIScreeningPolicy(validators, { unknownRecipients: true });
+
+            expect(policy.shouldScreen(Transaction.createTransfer(wallet, known, 1n, 0n), state))
+                .toBe(false);
+            expect(policy.shouldScreen(Transaction.createTransfer(wallet, unknown, 1n, 0n), state))
+                .toBe(true);
+        });
+    });
+
+    describe('screen', () => {
+        it('accepts a transaction with confident approvals and no rejections', async () => {
+            expect(await screen([approve, approve, unsure])).toBe('accept');
+        });
+
+        it('rejects on a majority of confident rejections', async () => {
+            expect(await screen([reject, reject, approve])).toBe('reject');
+        });
+
+        it('flags a transaction a minority rejects', async () => {
+            expect(await screen([reject, approve, approve])).toBe('flag');
+        });
+
+        it('holds a transaction nobody confidently approves', async () => {
+            expect(await screen([unsure, 'fail'])).toBe('hold');
+        });
+
+        it('counts a validator that does not answer in time as abstaining', async () => {
+            expect(await screen([approve, 'silent'], 50)).toBe('accept');
+            expect(await screen(['silent'], 50)).toBe('hold');
+        });
+    });
+});